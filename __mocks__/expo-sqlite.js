@@ -2,31 +2,237 @@
  * Modern expo-sqlite mock supporting openDatabaseSync and the new async API.
  */
 
-const mockRows = [];
+const mockTables = {};
+
+// Column names of each created table, as reported by PRAGMA table_info
+const mockColumns = {};
+
+// Exclusive transactions run one at a time, like on a real database
+let mockTransactionQueue = Promise.resolve();
+
+/**
+ * Returns the rows of the table targeted by a statement.
+ */
+const getRows = (sql) => {
+  const [, table] = sql.match(/(?:from|into|update)\s+(\w+)/i) || [];
+  mockTables[table] = mockTables[table] || [];
+  return mockTables[table];
+};
+
+/**
+ * Maps the column list of an INSERT statement to its bound parameters.
+ */
+const parseInsert = (sql, params) => {
+  const [, columns] = sql.match(/\(([^)]+)\)\s*values/i);
+  const row = {};
+  columns.split(',').forEach((column, i) => {
+    row[column.trim()] = params[i] ?? null;
+  });
+  return row;
+};
+
+/**
+ * Maps `column = ?` assignments of an UPDATE statement to their bound parameters.
+ */
+const parseAssignments = (sql, params) => {
+  const [, assignments] = sql.match(/set\s+(.+?)\s+where/i);
+  const values = {};
+  assignments.split(',').forEach((assignment, i) => {
+    const [column] = assignment.split('=');
+    values[column.trim()] = params[i];
+  });
+  return values;
+};
+
+/**
+ * Applies the schema statements of a script: CREATE TABLE records the columns
+ * of a new table, ALTER TABLE ADD COLUMN adds one with its default, and the
+ * status backfill derives the status of rows that have none.
+ */
+const execScript = (sql) => {
+  const create = sql.match(
+    /create table if not exists (\w+)\s*\(([\s\S]+)\)\s*;?\s*$/i
+  );
+  if (create) {
+    const [, table, definitions] = create;
+    mockColumns[table] =
+      mockColumns[table] ||
+      definitions
+        .split(',')
+        .map((definition) => definition.trim().split(/\s+/)[0])
+        // Skip table constraints such as PRIMARY KEY (jobId, parentId)
+        .filter((column) => /^\w+$/.test(column) && !/^primary$/i.test(column));
+    return;
+  }
+
+  const alter = sql.match(
+    /alter table (\w+) add column (\w+)(?:.*default '([^']*)')?/i
+  );
+  if (alter) {
+    const [, table, column, defaultValue] = alter;
+    if (mockColumns[table]?.includes(column)) {
+      throw new Error(`duplicate column name: ${column}`);
+    }
+    mockColumns[table] = [...(mockColumns[table] || []), column];
+    getRows(`from ${table}`).forEach((row) => {
+      row[column] = defaultValue ?? null;
+    });
+    return;
+  }
+
+  if (/set status = case/i.test(sql)) {
+    const now = new Date().toISOString();
+    getRows(sql)
+      .filter((row) => row.status == null)
+      .forEach((row) => {
+        const data = JSON.parse(row.data || '{}');
+        row.status =
+          row.active === 1
+            ? 'active'
+            : (data.attempts ?? 0) >= (data.maxAttempts ?? 1)
+            ? 'failed'
+            : row.runAt > now
+            ? 'delayed'
+            : 'waiting';
+      });
+  }
+};
+
+/**
+ * Whether a row is waiting or delayed, i.e. may be claimed once due.
+ */
+const isIdle = (row) => row.status === 'waiting' || row.status === 'delayed';
+
+/**
+ * Orders two values the way SQLite does: nulls first, then ascending.
+ */
+const compareValues = (a, b) => {
+  if (a == null || b == null) return (a == null ? 0 : 1) - (b == null ? 0 : 1);
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Runs a query over the job table and the DLQ read together with UNION ALL:
+ * either counts grouped by name and status, or filtered, sorted and paged rows.
+ */
+const queryJobsAndDeadJobs = (sql, params) => {
+  const sqlLower = sql.toLowerCase();
+  const [[, jobsTable], [, deadTable]] = [...sql.matchAll(/from (\w+)/gi)];
+  const rows = [
+    ...(mockTables[jobsTable] || []).map((r) => ({ ...r, dead: 0 })),
+    ...(mockTables[deadTable] || []).map((r) => {
+      const job = JSON.parse(r.data);
+      return {
+        id: r.id,
+        name: job.name,
+        payload: null,
+        data: r.data,
+        priority: job.priority,
+        active: 0,
+        timeout: null,
+        created: job.created,
+        failed: r.failed,
+        runAt: job.runAt ?? null,
+        uniqueKey: null,
+        status: job.status,
+        queue: job.queue ?? 'default',
+        dead: 1,
+      };
+    }),
+  ];
+
+  // A queue filter is bound first (counts bind it once per UNION ALL part)
+  const queue = sqlLower.includes('queue = ?') ? params[0] : undefined;
+  const inQueue = (r) => queue === undefined || r.queue === queue;
+
+  if (sqlLower.includes('count(*)')) {
+    const groups = new Map();
+    rows.filter(inQueue).forEach(({ name, status }) => {
+      const key = `${name}:${status}`;
+      const group = groups.get(key) || { name, status, count: 0 };
+      group.count += 1;
+      groups.set(key, group);
+    });
+    return [...groups.values()];
+  }
+
+  // Filters bind their values in order: queue, names, states, then tags
+  let paramIndex = queue === undefined ? 0 : 1;
+  const bound = (column) => {
+    const match = sqlLower.match(new RegExp(`\\b${column} in \\(([^)]*)\\)`));
+    if (!match) return null;
+    const count = match[1].split(',').length;
+    const values = params.slice(paramIndex, paramIndex + count);
+    paramIndex += count;
+    return values;
+  };
+  const names = bound('name');
+  const states = bound('status');
+  const tags = bound('value');
+
+  let result = rows.filter((r) => {
+    const rowTags = JSON.parse(r.data || '{}').tags || [];
+    return (
+      inQueue(r) &&
+      (!names || names.includes(r.name)) &&
+      (!states || states.includes(r.status)) &&
+      (!tags || rowTags.some((tag) => tags.includes(tag)))
+    );
+  });
+
+  const [, orderBy] = sqlLower.match(/order by (.+?) limit/);
+  const order = orderBy.split(',').map((part) => part.trim().split(/\s+/));
+  result.sort((a, b) => {
+    for (const [column, direction] of order) {
+      const key = Object.keys(a).find((k) => k.toLowerCase() === column);
+      const diff = compareValues(a[key], b[key]);
+      if (diff !== 0) return direction === 'desc' ? -diff : diff;
+    }
+    return 0;
+  });
+
+  const [limit, offset] = params.slice(-2);
+  return result.slice(offset, limit < 0 ? undefined : offset + limit);
+};
 
 const mockDb = {
-  execAsync: jest.fn().mockResolvedValue(undefined),
+  execAsync: jest.fn().mockImplementation(async (sql) => execScript(sql)),
   runAsync: jest.fn().mockImplementation(async (sql, params = []) => {
     const sqlLower = sql.toLowerCase();
+    const mockRows = getRows(sql);
 
     if (sqlLower.includes('insert') || sqlLower.includes('replace')) {
-      const row = {
-        id: params[0],
-        name: params[1],
-        payload: params[2],
-        data: params[3],
-        priority: params[4],
-        active: params[5],
-        timeout: params[6],
-        created: params[7],
-        failed: params[8],
-      };
-      const idx = mockRows.findIndex((r) => r.id === row.id);
+      const row = parseInsert(sql, params);
+      if (sqlLower.includes('or ignore')) {
+        // Primary key and unique index on uniqueKey
+        const duplicate = mockRows.find(
+          (r) =>
+            (row.id !== undefined && r.id === row.id) ||
+            (row.uniqueKey != null && r.uniqueKey === row.uniqueKey)
+        );
+        if (duplicate) return { lastInsertRowId: 0, changes: 0 };
+      }
+      // Rows without an id (e.g. dependency edges) are never replaced
+      const idx =
+        row.id === undefined ? -1 : mockRows.findIndex((r) => r.id === row.id);
       if (idx > -1) mockRows[idx] = row;
       else mockRows.push(row);
       return { lastInsertRowId: 1, changes: 1 };
     }
 
+    if (sqlLower.includes('where status = ? and id = ?')) {
+      // Conditional write: ... WHERE status = ? AND id = ?
+      const [status, id] = params.slice(-2);
+      const idx = mockRows.findIndex((r) => r.id === id && r.status === status);
+      if (idx === -1) return { changes: 0 };
+      if (sqlLower.includes('delete from')) {
+        mockRows.splice(idx, 1);
+      } else {
+        Object.assign(mockRows[idx], parseAssignments(sql, params));
+      }
+      return { changes: 1 };
+    }
+
     if (sqlLower.includes('delete from') && !sqlLower.includes('where')) {
       mockRows.length = 0;
     }
@@ -37,36 +243,65 @@ const mockDb = {
       if (idx > -1) mockRows.splice(idx, 1);
     }
 
+    if (
+      sqlLower.includes('delete from') &&
+      sqlLower.includes('where closesat <= ?')
+    ) {
+      const now = params[0];
+      const open = mockRows.filter((r) => r.closesAt > now);
+      mockRows.splice(0, mockRows.length, ...open);
+    }
+
+    if (
+      sqlLower.includes('delete from') &&
+      sqlLower.includes('where jobid =')
+    ) {
+      const jobId = params[0];
+      const remaining = mockRows.filter((r) => r.jobId !== jobId);
+      mockRows.splice(0, mockRows.length, ...remaining);
+    }
+
     if (
       sqlLower.includes('update') &&
-      sqlLower.includes('set active = 0 where active = 1')
+      sqlLower.includes("where status = 'active'")
     ) {
+      // recover: UPDATE ... SET active = 0, status = CASE WHEN runAt > now ... WHERE status = 'active'
+      const now = new Date().toISOString();
       mockRows.forEach((r) => {
-        if (r.active === 1) r.active = 0;
+        if (r.status === 'active')
+          Object.assign(r, {
+            active: 0,
+            status: r.runAt && r.runAt > now ? 'delayed' : 'waiting',
+          });
       });
       return { changes: 1 };
     }
 
     if (sqlLower.includes('update') && sqlLower.includes('set active = 1')) {
-      // atomic claim: UPDATE ... WHERE id IN (...)
-      // Extract IDs from SQL like WHERE id IN ('id1','id2')
-      const matches = sql.match(/'([^']+)'/g);
-      if (matches) {
-        const ids = matches.map((m) => m.replace(/'/g, ''));
-        mockRows.forEach((r) => {
-          if (ids.includes(r.id)) r.active = 1;
-        });
-      }
-      return { changes: 1 };
+      // atomic claim: UPDATE ... WHERE id IN (?, ?) with the ids bound
+      let changes = 0;
+      mockRows.forEach((r) => {
+        if (params.includes(r.id)) {
+          Object.assign(r, { active: 1, status: 'active' });
+          changes++;
+        }
+      });
+      return { changes };
+    }
+
+    if (sqlLower.includes('where uniquekey = ? and status in')) {
+      const uniqueKey = params[params.length - 1];
+      const row = mockRows.find((r) => r.uniqueKey === uniqueKey && isIdle(r));
+      if (row) Object.assign(row, parseAssignments(sql, params));
+      return { changes: row ? 1 : 0 };
     }
 
     if (sqlLower.includes('update')) {
-      const id = params[3];
+      // UPDATE ... SET a = ?, b = ? WHERE id = ?
+      const id = params[params.length - 1];
       const row = mockRows.find((r) => r.id === id);
       if (row) {
-        row.active = params[0];
-        row.failed = params[1];
-        row.data = params[2];
+        Object.assign(row, parseAssignments(sql, params));
       }
     }
 
@@ -75,10 +310,85 @@ const mockDb = {
 
   getAllAsync: jest.fn().mockImplementation(async (sql, params = []) => {
     const sqlLower = sql.toLowerCase();
-    let result = [...mockRows];
+    let result = [...getRows(sql)];
+    let paramIndex = 0;
 
-    if (sqlLower.includes('where active = 0')) {
-      result = result.filter((r) => r.active === 0);
+    if (sqlLower.startsWith('pragma table_info')) {
+      const [, table] = sql.match(/table_info\((\w+)\)/i);
+      return (mockColumns[table] || []).map((name) => ({ name }));
+    }
+
+    if (sqlLower.includes('union all')) {
+      return queryJobsAndDeadJobs(sql, params);
+    }
+
+    if (sqlLower.includes('where status = ?')) {
+      const status = params[paramIndex++];
+      result = result.filter((r) => r.status === status);
+    }
+
+    if (sqlLower.includes("status in ('waiting', 'delayed')")) {
+      result = result.filter(isIdle);
+    }
+
+    if (sqlLower.includes('runat is null or runat <= ?')) {
+      const now = params[paramIndex++];
+      result = result.filter((r) => !r.runAt || r.runAt <= now);
+    }
+
+    if (sqlLower.includes('queue = ?')) {
+      const queue = params[paramIndex++];
+      result = result.filter((r) => r.queue === queue);
+    }
+
+    if (sqlLower.includes('not exists (select 1 from')) {
+      // Skip jobs with a parent that is still in one of the `SELECT id FROM` tables
+      const [, edgesTable] = sql.match(/not exists \(select 1 from (\w+)/i);
+      const parentTables = [...sql.matchAll(/select id from (\w+)/gi)];
+      const parents = parentTables
+        .flatMap(([, table]) => mockTables[table] || [])
+        .filter(
+          (j) =>
+            !sqlLower.includes("status != 'completed'") ||
+            j.status !== 'completed'
+        );
+      const edges = mockTables[edgesTable] || [];
+      result = result.filter(
+        (r) =>
+          !edges.some(
+            (e) => e.jobId === r.id && parents.some((j) => j.id === e.parentId)
+          )
+      );
+    }
+
+    if (sqlLower.includes('min(runat)')) {
+      const now = params[paramIndex++];
+      const future = result
+        .map((r) => r.runAt)
+        .filter((runAt) => runAt && runAt > now)
+        .sort();
+      return [{ runAt: future[0] ?? null }];
+    }
+
+    if (sqlLower.includes(' name in (')) {
+      const [, placeholders] = sqlLower.match(/ name in \(([^)]*)\)/);
+      const count = placeholders.split(',').length;
+      const names = params.slice(paramIndex, paramIndex + count);
+      paramIndex += count;
+      result = result.filter((r) => names.includes(r.name));
+    }
+
+    if (sqlLower.includes('name not in (')) {
+      // Excluded names are bound before the trailing LIMIT parameter
+      const excluded = params.slice(paramIndex, -1);
+      result = result.filter((r) => !excluded.includes(r.name));
+    }
+
+    if (sqlLower.includes('where id = ? or uniquekey = ?')) {
+      const [id, uniqueKey] = params;
+      return result.filter(
+        (r) => r.id === id || (uniqueKey != null && r.uniqueKey === uniqueKey)
+      );
     }
 
     if (sqlLower.includes('where id =')) {
@@ -107,14 +417,17 @@ const mockDb = {
     return rows[0] || null;
   }),
 
-  withExclusiveTransactionAsync: jest
-    .fn()
-    .mockImplementation(async (callback) => {
-      return await callback({
+  withExclusiveTransactionAsync: jest.fn().mockImplementation((callback) => {
+    const result = mockTransactionQueue.then(() =>
+      callback({
+        execAsync: mockDb.execAsync,
         getAllAsync: mockDb.getAllAsync,
         runAsync: mockDb.runAsync,
-      });
-    }),
+      })
+    );
+    mockTransactionQueue = result.catch(() => undefined);
+    return result;
+  }),
 };
 
 export const openDatabaseSync = jest.fn().mockReturnValue(mockDb);
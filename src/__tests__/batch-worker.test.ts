@@ -0,0 +1,27 @@
+import { BatchWorker } from '../batch-worker';
+import { createJob } from '../utils/helpers';
+
+describe('BatchWorker', () => {
+  it('should pass every job and the context to the worker function', async () => {
+    const workerFn = jest.fn().mockResolvedValue(['a', 'b']);
+    const worker = new BatchWorker('analytics', workerFn);
+    const jobs = [createJob('analytics', 1), createJob('analytics', 2)];
+    const context = { signal: new AbortController().signal };
+
+    await expect(worker.execute(jobs, context)).resolves.toEqual(['a', 'b']);
+    expect(workerFn).toHaveBeenCalledWith(jobs, context);
+  });
+
+  it('should default maxBatchSize to 10', () => {
+    expect(new BatchWorker('analytics', jest.fn()).maxBatchSize).toBe(10);
+    expect(
+      new BatchWorker('analytics', jest.fn(), { maxBatchSize: 50 }).maxBatchSize
+    ).toBe(50);
+  });
+
+  it('should reject a maxBatchSize below 1', () => {
+    expect(
+      () => new BatchWorker('analytics', jest.fn(), { maxBatchSize: 0 })
+    ).toThrow('Batch worker analytics requires maxBatchSize of at least 1');
+  });
+});
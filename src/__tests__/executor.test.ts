@@ -1,9 +1,18 @@
 import EventEmitter from 'eventemitter3';
 import { JobExecutor } from '../executor';
 import { Worker } from '../worker';
+import { BatchWorker } from '../batch-worker';
 import { createJob } from '../utils/helpers';
-import type { Adapter } from '../types';
+import type { Adapter, Job } from '../types';
 import { MemoryAdapter } from '../jest/mock';
+import { MemoryAdapter as StoreAdapter } from '../adapters/memory';
+import { JobRegistry } from '../registry';
+import {
+  JobDependencyError,
+  JobTimeoutError,
+  RateLimitError,
+  UnrecoverableError,
+} from '../errors';
 
 describe('JobExecutor', () => {
   let executor: JobExecutor;
@@ -18,7 +27,7 @@ describe('JobExecutor', () => {
 
   it('should execute job successfully', async () => {
     const job = createJob('test', { foo: 'bar' });
-    const workerFn = jest.fn().mockResolvedValue(undefined);
+    const workerFn = jest.fn().mockResolvedValue({ uploaded: true });
     const worker = new Worker('test', workerFn);
 
     const startSpy = jest.fn();
@@ -28,12 +37,37 @@ describe('JobExecutor', () => {
 
     await executor.execute(job, worker);
 
-    expect(job.active).toBe(true);
+    expect(job.status).toBe('completed');
     expect(adapter.updateJob).toHaveBeenCalledWith(job);
-    expect(workerFn).toHaveBeenCalledWith(job.id, job.payload);
+    expect(workerFn).toHaveBeenCalledWith(job.id, job.payload, {
+      signal: expect.any(AbortSignal),
+      reportProgress: expect.any(Function),
+    });
     expect(adapter.removeJob).toHaveBeenCalledWith(job);
     expect(startSpy).toHaveBeenCalledWith(job);
-    expect(successSpy).toHaveBeenCalledWith(job);
+    expect(successSpy).toHaveBeenCalledWith(job, { uploaded: true });
+  });
+
+  it('should persist and emit reported progress', async () => {
+    const job = createJob('test', {});
+    const worker = new Worker('test', async (_id, _payload, context) => {
+      await context.reportProgress(50);
+      await context.reportProgress({ loaded: 10, total: 10 });
+    });
+
+    const progressSpy = jest.fn();
+    emitter.on('progress', progressSpy);
+
+    await executor.execute(job, worker);
+
+    expect(progressSpy).toHaveBeenNthCalledWith(1, job, 50);
+    expect(progressSpy).toHaveBeenNthCalledWith(2, job, {
+      loaded: 10,
+      total: 10,
+    });
+    expect(job.progress).toEqual({ loaded: 10, total: 10 });
+    // Start, two progress reports
+    expect(adapter.updateJob).toHaveBeenCalledTimes(3);
   });
 
   it('should handle job failure and retry', async () => {
@@ -72,6 +106,194 @@ describe('JobExecutor', () => {
     expect(adapter.moveToDLQ).toHaveBeenCalledWith(job);
   });
 
+  it('should emit failed once the job is in the DLQ', async () => {
+    const store = new StoreAdapter();
+    executor = new JobExecutor({ adapter: store, emitter });
+    const job = createJob('test', {}, { attempts: 1 });
+    await store.addJob(job);
+    const worker = new Worker('test', jest.fn().mockRejectedValue(new Error()));
+
+    let deadJobs: Promise<Job<unknown>[]> | undefined;
+    emitter.on('failed', () => {
+      deadJobs = store.getDeadJobs();
+    });
+    await executor.execute(job, worker);
+
+    expect((await deadJobs)?.map((j) => j.id)).toEqual([job.id]);
+  });
+
+  it('should keep a failed job in place when the adapter has no DLQ', async () => {
+    delete adapter.moveToDLQ;
+    const job = createJob('test', {}, { attempts: 1 });
+    const worker = new Worker('test', jest.fn().mockRejectedValue(new Error()));
+
+    await executor.execute(job, worker);
+
+    expect(adapter.updateJob).toHaveBeenLastCalledWith(job);
+    expect(job.attempts).toBe(job.maxAttempts);
+  });
+
+  it('should track the status of a retried and finally failed job', async () => {
+    const job = createJob('test', {}, { attempts: 2, timeInterval: 100 });
+    const worker = new Worker('test', jest.fn().mockRejectedValue(new Error()));
+
+    await executor.execute(job, worker);
+    expect(job.status).toBe('delayed');
+    expect(job.active).toBe(false);
+
+    await executor.execute(job, worker);
+    expect(job.status).toBe('failed');
+    expect(adapter.moveToDLQ).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'failed' })
+    );
+  });
+
+  it('should record each failed attempt in the job history', async () => {
+    executor = new JobExecutor({ adapter, emitter, maxAttemptHistory: 2 });
+    const job = createJob('test', {}, { attempts: 3 });
+    const errors = [1, 2, 3].map((attempt) =>
+      Object.assign(new Error(`Failure ${attempt}`), { status: 500 })
+    );
+    const workerFn = jest.fn();
+    errors.forEach((error) => workerFn.mockRejectedValueOnce(error));
+    const worker = new Worker('test', workerFn);
+    const failedSpy = jest.fn();
+    emitter.on('failed', failedSpy);
+
+    for (let i = 0; i < 3; i++) {
+      await executor.execute(job, worker);
+    }
+
+    expect(job.attemptHistory).toEqual([
+      expect.objectContaining({
+        attempt: 2,
+        error: expect.objectContaining({ message: 'Failure 2', status: 500 }),
+      }),
+      expect.objectContaining({
+        attempt: 3,
+        error: expect.objectContaining({
+          name: 'Error',
+          message: 'Failure 3',
+          stack: errors[2]?.stack,
+        }),
+      }),
+    ]);
+    expect(failedSpy.mock.calls[0]?.[0].attemptHistory).toHaveLength(2);
+  });
+
+  it('should record completed and interrupted attempts in the job history', async () => {
+    const job = createJob('test', {}, { attempts: 3 });
+    const workerFn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Fail'))
+      .mockImplementationOnce(() => new Promise<void>(() => {}))
+      .mockResolvedValueOnce(undefined);
+    const worker = new Worker('test', workerFn);
+
+    await executor.execute(job, worker);
+    const interrupted = executor.execute(job, worker);
+    await Promise.resolve();
+    executor.interruptAll();
+    await interrupted;
+    await executor.execute(job, worker);
+
+    expect(
+      job.attemptHistory?.map(({ attempt, outcome }) => [attempt, outcome])
+    ).toEqual([
+      [1, 'failed'],
+      [2, 'interrupted'],
+      [2, 'completed'],
+    ]);
+  });
+
+  it('should fail an unrecoverable error without retrying', async () => {
+    const job = createJob('test', {}, { attempts: 5 });
+    const error = new UnrecoverableError('Invalid payload');
+    const shouldRetry = jest.fn().mockReturnValue(true);
+    const worker = new Worker('test', jest.fn().mockRejectedValue(error), {
+      shouldRetry,
+    });
+    const failedSpy = jest.fn();
+    emitter.on('failed', failedSpy);
+
+    await executor.execute(job, worker);
+
+    expect(shouldRetry).not.toHaveBeenCalled();
+    expect(job.attempts).toBe(5);
+    expect(failedSpy).toHaveBeenCalledWith(job, error);
+    expect(adapter.moveToDLQ).toHaveBeenCalledWith(job);
+  });
+
+  describe('shouldRetry', () => {
+    const run = async (decision: boolean | { delay: number }) => {
+      const job = createJob('test', {}, { attempts: 3, timeInterval: 100 });
+      const error = new Error('Failed');
+      const shouldRetry = jest.fn().mockReturnValue(decision);
+      const worker = new Worker('test', jest.fn().mockRejectedValue(error), {
+        shouldRetry,
+      });
+      await executor.execute(job, worker);
+      expect(shouldRetry).toHaveBeenCalledWith(error, job);
+      return job;
+    };
+
+    it('should fail for good when it returns false', async () => {
+      const failedSpy = jest.fn();
+      emitter.on('failed', failedSpy);
+
+      const job = await run(false);
+
+      expect(job.attempts).toBe(job.maxAttempts);
+      expect(failedSpy).toHaveBeenCalled();
+      expect(adapter.moveToDLQ).toHaveBeenCalledWith(job);
+    });
+
+    it('should retry with the backoff when it returns true', async () => {
+      const failureSpy = jest.fn();
+      emitter.on('failure', failureSpy);
+
+      const job = await run(true);
+
+      expect(job.attempts).toBe(1);
+      expect(failureSpy).toHaveBeenCalled();
+      expect(new Date(job.runAt ?? 0).getTime()).toBeLessThanOrEqual(
+        Date.now() + 300
+      );
+    });
+
+    it('should retry after the returned delay', async () => {
+      const before = Date.now();
+      const job = await run({ delay: 60000 });
+
+      expect(job.attempts).toBe(1);
+      expect(new Date(job.runAt ?? 0).getTime()).toBeGreaterThanOrEqual(
+        before + 60000
+      );
+    });
+  });
+
+  it('should store the next attempt time from the backoff strategy', async () => {
+    const job = createJob(
+      'test',
+      {},
+      { attempts: 3, backoff: { type: 'server' } }
+    );
+    const error = new Error('Busy');
+    const server = jest.fn().mockReturnValue(30000);
+    const worker = new Worker('test', jest.fn().mockRejectedValue(error), {
+      backoffStrategies: { server },
+    });
+
+    const before = Date.now();
+    await executor.execute(job, worker);
+
+    expect(server).toHaveBeenCalledWith(1, error, job);
+    const runAt = new Date(job.runAt ?? 0).getTime();
+    expect(runAt).toBeGreaterThanOrEqual(before + 30000);
+    expect(runAt).toBeLessThanOrEqual(Date.now() + 30000);
+    expect(adapter.updateJob).toHaveBeenLastCalledWith(job);
+  });
+
   it('should call onFailed worker callback', async () => {
     const onFailed = jest.fn();
     const job = createJob('test', {}, { attempts: 1 });
@@ -84,4 +306,382 @@ describe('JobExecutor', () => {
 
     expect(onFailed).toHaveBeenCalledWith(job, error);
   });
+
+  it('should cancel a running job without retrying it', async () => {
+    const job = createJob('test', {}, { attempts: 3 });
+    let signal: AbortSignal | undefined;
+    const worker = new Worker('test', (_id, _payload, context) => {
+      signal = context.signal;
+      return new Promise<void>(() => {});
+    });
+
+    const cancelledSpy = jest.fn();
+    const failureSpy = jest.fn();
+    emitter.on('cancelled', cancelledSpy);
+    emitter.on('failure', failureSpy);
+
+    const execution = executor.execute(job, worker);
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(executor.cancel(job.id)).toBe(true);
+    await execution;
+
+    expect(signal?.aborted).toBe(true);
+    expect(job.attempts).toBe(0);
+    expect(adapter.removeJob).toHaveBeenCalledWith(job);
+    expect(cancelledSpy).toHaveBeenCalledWith(job);
+    expect(failureSpy).not.toHaveBeenCalled();
+    expect(executor.cancel(job.id)).toBe(false);
+  });
+
+  it('should not start a job cancelled before execution', async () => {
+    const job = createJob('test', {});
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+
+    executor.skip(job.id);
+    await executor.execute(job, new Worker('test', workerFn));
+
+    expect(workerFn).not.toHaveBeenCalled();
+  });
+
+  it('should requeue a rate limited job without consuming an attempt', async () => {
+    const registry = new JobRegistry();
+    registry.addLimiter('api', { max: 5, duration: 1000 });
+    executor = new JobExecutor({ adapter, emitter, registry });
+
+    const job = createJob('test', {});
+    const worker = new Worker(
+      'test',
+      jest.fn().mockRejectedValue(new RateLimitError(30000)),
+      { limiter: 'api' }
+    );
+    const failedSpy = jest.fn();
+    emitter.on('failed', failedSpy);
+
+    const before = Date.now();
+    await executor.execute(job, worker);
+
+    expect(job.active).toBe(false);
+    expect(job.attempts).toBe(0);
+    expect(new Date(job.runAt ?? 0).getTime()).toBeGreaterThanOrEqual(
+      before + 30000
+    );
+    expect(failedSpy).not.toHaveBeenCalled();
+    expect(adapter.removeJob).not.toHaveBeenCalled();
+    expect(registry.getLimiter('api')?.getWaitTime()).toBeGreaterThan(29000);
+  });
+
+  describe('batches', () => {
+    it('should settle each job of a batch on its own', async () => {
+      const ok = createJob('analytics', 1);
+      const retry = createJob('analytics', 2, { attempts: 2 });
+      const error = new Error('Rejected');
+      const worker = new BatchWorker(
+        'analytics',
+        jest.fn().mockResolvedValue(['sent', error])
+      );
+      const successSpy = jest.fn();
+      const failureSpy = jest.fn();
+      emitter.on('success', successSpy);
+      emitter.on('failure', failureSpy);
+
+      await executor.executeBatch([ok, retry], worker);
+
+      expect(worker.workerFn).toHaveBeenCalledWith([ok, retry], {
+        signal: expect.any(AbortSignal),
+      });
+      expect(adapter.removeJob).toHaveBeenCalledWith(ok);
+      expect(successSpy).toHaveBeenCalledWith(ok, 'sent');
+      expect(failureSpy).toHaveBeenCalledWith(retry, error);
+      expect(retry.attempts).toBe(1);
+      expect(retry.active).toBe(false);
+    });
+
+    it('should fail every job when the batch rejects', async () => {
+      const jobs = [createJob('analytics', 1), createJob('analytics', 2)];
+      const onFailed = jest.fn();
+      const worker = new BatchWorker(
+        'analytics',
+        jest.fn().mockRejectedValue(new Error('Offline')),
+        { onFailed }
+      );
+
+      await executor.executeBatch(jobs, worker);
+
+      expect(onFailed).toHaveBeenCalledTimes(2);
+      expect(jobs.every((job) => job.attempts === 1)).toBe(true);
+    });
+
+    it('should drop a cancelled job but keep running the rest', async () => {
+      const cancelled = createJob('analytics', 1);
+      const kept = createJob('analytics', 2);
+      let signal: AbortSignal | undefined;
+      let finish: () => void = () => {};
+      let onStarted: () => void = () => {};
+      const started = new Promise<void>((resolve) => {
+        onStarted = resolve;
+      });
+      const worker = new BatchWorker('analytics', (_jobs, context) => {
+        signal = context.signal;
+        onStarted();
+        return new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+      });
+      const cancelledSpy = jest.fn();
+      const successSpy = jest.fn();
+      emitter.on('cancelled', cancelledSpy);
+      emitter.on('success', successSpy);
+
+      const execution = executor.executeBatch([cancelled, kept], worker);
+      await started;
+      expect(executor.cancel(cancelled.id)).toBe(true);
+      expect(signal?.aborted).toBe(false);
+      finish();
+      await execution;
+
+      expect(cancelledSpy).toHaveBeenCalledWith(cancelled);
+      expect(successSpy).toHaveBeenCalledTimes(1);
+      expect(successSpy).toHaveBeenCalledWith(kept, undefined);
+    });
+  });
+
+  describe('timeouts', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fail the attempt when the worker exceeds the timeout', async () => {
+      const job = createJob('test', {}, { attempts: 2, timeout: 1000 });
+      const workerFn = jest.fn().mockReturnValue(new Promise(() => {}));
+      const worker = new Worker('test', workerFn);
+
+      const failureSpy = jest.fn();
+      emitter.on('failure', failureSpy);
+
+      const execution = executor.execute(job, worker);
+      await jest.advanceTimersByTimeAsync(1000);
+      await execution;
+
+      expect(job.attempts).toBe(1);
+      expect(job.active).toBe(false);
+      expect(failureSpy).toHaveBeenCalledWith(job, expect.any(JobTimeoutError));
+      expect(job.metaData?.lastError).toBe(
+        `Job ${job.id} timed out after 1000ms`
+      );
+    });
+
+    it('should abort the worker signal on timeout', async () => {
+      const job = createJob('test', {}, { timeout: 500 });
+      let signal: AbortSignal | undefined;
+      const worker = new Worker('test', (_id, _payload, context) => {
+        signal = context.signal;
+        return new Promise<void>((_, reject) => {
+          context.signal.addEventListener('abort', () =>
+            reject(new Error('Aborted'))
+          );
+        });
+      });
+
+      const failedSpy = jest.fn();
+      emitter.on('failed', failedSpy);
+
+      const execution = executor.execute(job, worker);
+      await jest.advanceTimersByTimeAsync(499);
+      expect(signal?.aborted).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await execution;
+
+      expect(signal?.aborted).toBe(true);
+      expect(failedSpy).toHaveBeenCalledWith(job, expect.any(JobTimeoutError));
+      expect(adapter.moveToDLQ).toHaveBeenCalledWith(job);
+    });
+
+    it('should not call onSuccess of a worker that finishes after its timeout', async () => {
+      const job = createJob('test', {}, { timeout: 1000 });
+      const onSuccess = jest.fn();
+      const worker = new Worker(
+        'test',
+        () => new Promise<void>((resolve) => setTimeout(resolve, 2000)),
+        { onSuccess }
+      );
+
+      const execution = executor.execute(job, worker);
+      await jest.advanceTimersByTimeAsync(2000);
+      await execution;
+
+      expect(job.status).toBe('failed');
+      expect(onSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should not time out a worker that finishes in time', async () => {
+      const job = createJob('test', {}, { timeout: 1000 });
+      const worker = new Worker('test', jest.fn().mockResolvedValue(undefined));
+
+      await executor.execute(job, worker);
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(adapter.removeJob).toHaveBeenCalledWith(job);
+      expect(adapter.updateJob).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('dependencies', () => {
+    let store: StoreAdapter;
+
+    beforeEach(() => {
+      store = new StoreAdapter();
+      executor = new JobExecutor({ adapter: store, emitter });
+    });
+
+    const failParent = async () => {
+      const parent = createJob('parent', {});
+      await store.addJob(parent);
+      const worker = new Worker(
+        'parent',
+        jest.fn().mockRejectedValue(new Error('offline'))
+      );
+      return { parent, run: () => executor.execute(parent, worker) };
+    };
+
+    it('should fail dependents and their own dependents by default', async () => {
+      const { parent, run } = await failParent();
+      const child = createJob('child', {}, { dependsOn: [parent.id] });
+      const grandchild = createJob('child', {}, { dependsOn: [child.id] });
+      await store.addJob(child);
+      await store.addJob(grandchild);
+
+      const failedSpy = jest.fn();
+      emitter.on('failed', failedSpy);
+      await run();
+
+      expect(failedSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ id: child.id }),
+        expect.any(JobDependencyError)
+      );
+      expect(failedSpy).toHaveBeenCalledTimes(3);
+      const dead = await store.getDeadJobs();
+      expect(dead.map((j) => j.id)).toEqual([
+        parent.id,
+        child.id,
+        grandchild.id,
+      ]);
+      const stored = dead.find((j) => j.id === grandchild.id);
+      expect(stored?.attempts).toBe(stored?.maxAttempts);
+    });
+
+    it('should remove dependents with the remove policy', async () => {
+      const { parent, run } = await failParent();
+      const child = createJob(
+        'child',
+        {},
+        { dependsOn: [parent.id], onParentFailure: 'remove' }
+      );
+      await store.addJob(child);
+
+      const cancelledSpy = jest.fn();
+      emitter.on('cancelled', cancelledSpy);
+      await run();
+
+      expect(await store.getJob(child.id)).toBeNull();
+      expect(cancelledSpy).toHaveBeenCalledWith(child);
+    });
+
+    it('should leave dependents blocked with the wait policy', async () => {
+      const { parent, run } = await failParent();
+      const child = createJob(
+        'child',
+        {},
+        { dependsOn: [parent.id], onParentFailure: 'wait' }
+      );
+      await store.addJob(child);
+      await run();
+
+      expect((await store.getJob(child.id))?.failed).toBeUndefined();
+      expect(await store.getConcurrentJobs(2)).toEqual([]);
+    });
+  });
+
+  describe('retention', () => {
+    let store: StoreAdapter;
+
+    beforeEach(() => {
+      store = new StoreAdapter();
+    });
+
+    const run = async (job: ReturnType<typeof createJob>, fn: jest.Mock) => {
+      await store.addJob(job);
+      await executor.execute(job, new Worker(job.name, fn));
+      // Pruning runs in the background
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    };
+
+    it('should retain completed jobs with their result', async () => {
+      executor = new JobExecutor({
+        adapter: store,
+        emitter,
+        removeOnComplete: false,
+      });
+      const job = createJob('test', {});
+      await run(job, jest.fn().mockResolvedValue('done'));
+
+      const stored = await store.getJob(job.id);
+      expect(stored?.status).toBe('completed');
+      expect(stored?.result).toBe('done');
+      expect(stored?.finishedAt).toEqual(expect.any(String));
+    });
+
+    it('should keep only the most recent completed jobs up to the count', async () => {
+      executor = new JobExecutor({ adapter: store, emitter });
+      const first = createJob('test', {}, { removeOnComplete: 1 });
+      const second = createJob('test', {}, { removeOnComplete: 1 });
+      await run(first, jest.fn().mockResolvedValue(1));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await run(second, jest.fn().mockResolvedValue(2));
+
+      expect((await store.getJobs()).map((j) => j.id)).toEqual([second.id]);
+    });
+
+    it('should remove jobs that failed for good with removeOnFail', async () => {
+      executor = new JobExecutor({
+        adapter: store,
+        emitter,
+        removeOnFail: true,
+      });
+      const job = createJob('test', {});
+      const failedSpy = jest.fn();
+      emitter.on('failed', failedSpy);
+      await run(job, jest.fn().mockRejectedValue(new Error('crash')));
+
+      expect(failedSpy).toHaveBeenCalled();
+      expect(await store.getJob(job.id)).toBeNull();
+      expect(await store.getDeadJobs()).toEqual([]);
+    });
+
+    it('should log pruning errors without failing the job', async () => {
+      executor = new JobExecutor({ adapter: store, emitter });
+      jest.spyOn(store, 'pruneJobs').mockRejectedValue(new Error('disk full'));
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const successSpy = jest.fn();
+      emitter.on('success', successSpy);
+
+      await run(
+        createJob('test', {}, { removeOnComplete: { age: 1000 } }),
+        jest.fn().mockResolvedValue(null)
+      );
+
+      expect(successSpy).toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[react-native-task-queue] Failed to prune finished jobs.',
+        expect.any(Error)
+      );
+      warnSpy.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,50 @@
+import { RateLimiter } from '../limiter';
+
+describe('RateLimiter', () => {
+  it('should hand out up to max tokens at once', () => {
+    const limiter = new RateLimiter('api', { max: 2, duration: 1000 });
+    const now = Date.now();
+
+    expect(limiter.tryRemoveToken(now)).toBe(true);
+    expect(limiter.tryRemoveToken(now)).toBe(true);
+    expect(limiter.tryRemoveToken(now)).toBe(false);
+  });
+
+  it('should refill tokens evenly over the duration', () => {
+    const limiter = new RateLimiter('api', { max: 2, duration: 1000 });
+    const now = Date.now();
+    limiter.tryRemoveToken(now);
+    limiter.tryRemoveToken(now);
+
+    expect(limiter.getWaitTime(now)).toBe(500);
+    expect(limiter.getWaitTime(now + 499)).toBe(1);
+    expect(limiter.tryRemoveToken(now + 500)).toBe(true);
+    expect(limiter.tryRemoveToken(now + 500)).toBe(false);
+  });
+
+  it('should not refill above max', () => {
+    const limiter = new RateLimiter('api', { max: 1, duration: 1000 });
+    const now = Date.now();
+
+    expect(limiter.tryRemoveToken(now + 10000)).toBe(true);
+    expect(limiter.tryRemoveToken(now + 10000)).toBe(false);
+  });
+
+  it('should hold back tokens while paused', () => {
+    const limiter = new RateLimiter('api', { max: 5, duration: 1000 });
+    const now = Date.now();
+    limiter.pause(3000, now);
+
+    expect(limiter.tryRemoveToken(now + 2999)).toBe(false);
+    expect(limiter.getWaitTime(now + 1000)).toBe(2000);
+    expect(limiter.tryRemoveToken(now + 3000)).toBe(true);
+    expect(limiter.tryRemoveToken(now + 3000)).toBe(false);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new RateLimiter('api', { max: 0, duration: 1000 })).toThrow(
+      'Rate limiter api requires max and duration greater than 0'
+    );
+    expect(() => new RateLimiter('api', { max: 1, duration: 0 })).toThrow();
+  });
+});
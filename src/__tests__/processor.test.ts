@@ -2,8 +2,10 @@ import { JobProcessor } from '../processor';
 import { JobRegistry } from '../registry';
 import { JobExecutor } from '../executor';
 import { createJob } from '../utils/helpers';
+import { JobDependencyError, JobExpiredError } from '../errors';
 import type { Adapter } from '../types';
 import { MemoryAdapter } from '../jest/mock';
+import { MemoryAdapter as MemoryStorageAdapter } from '../adapters/memory';
 import EventEmitter from 'eventemitter3';
 import NetInfo from '@react-native-community/netinfo';
 
@@ -18,8 +20,8 @@ describe('JobProcessor', () => {
     jest.useFakeTimers();
     registry = new JobRegistry();
     emitter = new EventEmitter();
-    executor = new JobExecutor({ adapter, emitter });
     adapter = new MemoryAdapter() as jest.Mocked<Adapter>;
+    executor = new JobExecutor({ adapter, emitter });
     // Spy on executor.execute to prevent it from actually running
     jest.spyOn(executor, 'execute').mockResolvedValue(undefined);
 
@@ -68,8 +70,47 @@ describe('JobProcessor', () => {
     processor.start();
     await jest.runAllTimersAsync();
 
-    expect(adapter.getConcurrentJobs).toHaveBeenCalledWith(2);
+    expect(adapter.getConcurrentJobs).toHaveBeenCalledWith(2, {
+      excludeNames: [],
+    });
+    expect(executor.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should respect per-worker concurrency', async () => {
+    const upload1 = createJob('upload', {});
+    const upload2 = createJob('upload', {});
+    const analytics = createJob('analytics', {});
+
+    adapter.getConcurrentJobs
+      .mockResolvedValueOnce([upload1, upload2, analytics])
+      .mockResolvedValue([]);
+    (executor.execute as jest.Mock).mockReturnValue(new Promise(() => {}));
+    registry.addWorker({
+      name: 'upload',
+      workerFn: jest.fn(),
+      options: { concurrency: 1 },
+    });
+    registry.addWorker({ name: 'analytics', workerFn: jest.fn() });
+
+    const localProcessor = new JobProcessor({
+      adapter,
+      registry,
+      executor,
+      concurrency: 3,
+    });
+    localProcessor.start();
+    await jest.runAllTimersAsync();
+
     expect(executor.execute).toHaveBeenCalledTimes(2);
+    expect(executor.execute).toHaveBeenCalledWith(upload1, expect.anything());
+    expect(executor.execute).toHaveBeenCalledWith(analytics, expect.anything());
+    // The second upload was unclaimed
+    expect(adapter.updateJob).toHaveBeenCalledWith(upload2);
+    expect(upload2.active).toBe(false);
+    // Later fetches exclude the saturated worker
+    expect(adapter.getConcurrentJobs).toHaveBeenLastCalledWith(1, {
+      excludeNames: ['upload'],
+    });
   });
 
   it('should skip paused job names', async () => {
@@ -123,6 +164,51 @@ describe('JobProcessor', () => {
     expect(executor.execute).not.toHaveBeenCalled();
   });
 
+  it('should keep the unique key of a job it returns to the queue', async () => {
+    const memory = new MemoryStorageAdapter();
+    processor = new JobProcessor({
+      adapter: memory,
+      registry,
+      executor,
+      monitorNetwork: true,
+    });
+    const job = createJob('test', {}, { uniqueKey: 'sync', onlineOnly: true });
+    await memory.addJob(job);
+    registry.addWorker({ name: 'test', workerFn: jest.fn() });
+
+    (NetInfo.fetch as jest.Mock).mockResolvedValueOnce({ isConnected: false });
+
+    processor.start();
+    await jest.runAllTimersAsync();
+
+    expect(executor.execute).not.toHaveBeenCalled();
+    expect((await memory.getJob(job.id))?.status).toBe('waiting');
+    const duplicate = createJob('test', {}, { uniqueKey: 'sync' });
+    expect(await memory.addJob(duplicate)).toBe(job.id);
+  });
+
+  it('should emit an error when a running job fails outside its worker', async () => {
+    const failingProcessor = new JobProcessor({
+      adapter,
+      registry,
+      executor,
+      emitter,
+    });
+    const onError = jest.fn();
+    emitter.on('error', onError);
+    const writeError = new Error('disk full');
+    (executor.execute as jest.Mock).mockRejectedValueOnce(writeError);
+    adapter.getConcurrentJobs
+      .mockResolvedValueOnce([createJob('test', {})])
+      .mockResolvedValue([]);
+    registry.addWorker({ name: 'test', workerFn: jest.fn() });
+
+    failingProcessor.start();
+    await jest.runAllTimersAsync();
+
+    expect(onError).toHaveBeenCalledWith(writeError);
+  });
+
   it('should remove expired jobs via TTL', async () => {
     const job = createJob('test', {});
     job.ttl = 1000;
@@ -131,12 +217,44 @@ describe('JobProcessor', () => {
     adapter.getConcurrentJobs
       .mockResolvedValueOnce([job])
       .mockResolvedValue([]);
+    const onFailed = jest.fn();
+    emitter.on('failed', onFailed);
     registry.addWorker({ name: 'test', workerFn: jest.fn() });
 
     processor.start();
     await jest.runAllTimersAsync();
 
     expect(adapter.removeJob).toHaveBeenCalledWith(job);
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: job.id, status: 'failed' }),
+      expect.any(JobExpiredError)
+    );
+    expect(executor.execute).not.toHaveBeenCalled();
+  });
+
+  it('should fail the dependents of a job that expired', async () => {
+    const parent = createJob('test', {}, { ttl: 1000 });
+    parent.created = new Date(Date.now() - 2000).toISOString();
+    const child = createJob('test', {}, { dependsOn: [parent.id] });
+    adapter.getConcurrentJobs
+      .mockResolvedValueOnce([parent])
+      .mockResolvedValue([]);
+    adapter.getJobs.mockResolvedValue([parent, child]);
+    const onFailed = jest.fn();
+    emitter.on('failed', onFailed);
+    registry.addWorker({ name: 'test', workerFn: jest.fn() });
+
+    processor.start();
+    await jest.runAllTimersAsync();
+
+    expect(adapter.removeJob).toHaveBeenCalledWith(parent);
+    expect(adapter.moveToDLQ).toHaveBeenCalledWith(
+      expect.objectContaining({ id: child.id, status: 'failed' })
+    );
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: child.id }),
+      expect.any(JobDependencyError)
+    );
     expect(executor.execute).not.toHaveBeenCalled();
   });
 
@@ -165,6 +283,156 @@ describe('JobProcessor', () => {
     expect(adapter.getConcurrentJobs).toHaveBeenCalledTimes(2);
   });
 
+  it('should wake up when the next delayed job is due', async () => {
+    (adapter.getNextRunAt as jest.Mock).mockResolvedValueOnce(
+      new Date(Date.now() + 60000).toISOString()
+    );
+    registry.addWorker({ name: 'test', workerFn: jest.fn() });
+
+    processor.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(adapter.getConcurrentJobs).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(59999);
+    expect(adapter.getConcurrentJobs).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(adapter.getConcurrentJobs).toHaveBeenCalledTimes(2);
+  });
+
+  it('should defer delayed jobs returned by an adapter', async () => {
+    const job = createJob('test', {}, { delay: 5000 });
+    adapter.getConcurrentJobs
+      .mockResolvedValueOnce([job])
+      .mockResolvedValue([]);
+    registry.addWorker({ name: 'test', workerFn: jest.fn() });
+
+    processor.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(executor.execute).not.toHaveBeenCalled();
+    expect(job.active).toBe(false);
+
+    adapter.getConcurrentJobs.mockResolvedValueOnce([job]);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(executor.execute).toHaveBeenCalledWith(job, expect.anything());
+  });
+
+  it('should cancel a pending backoff wake-up when stopped', async () => {
+    const job = createJob('test', {});
+    job.failed = new Date().toISOString();
+    job.attempts = 1;
+    job.maxAttempts = 3;
+    job.timeInterval = 5000;
+
+    adapter.getConcurrentJobs
+      .mockResolvedValueOnce([job])
+      .mockResolvedValue([]);
+    registry.addWorker({ name: 'test', workerFn: jest.fn() });
+
+    processor.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(adapter.getConcurrentJobs).toHaveBeenCalledTimes(1);
+
+    await processor.stop();
+    await jest.advanceTimersByTimeAsync(20000);
+
+    expect(adapter.getConcurrentJobs).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should not start jobs while their rate limiter has no tokens', async () => {
+    registry.addLimiter('api', { max: 1, duration: 1000 });
+    registry.addWorker({
+      name: 'test',
+      workerFn: jest.fn(),
+      options: { limiter: 'api' },
+    });
+    const job1 = createJob('test', {});
+    const job2 = createJob('test', {});
+    adapter.getConcurrentJobs
+      .mockResolvedValueOnce([job1, job2])
+      .mockResolvedValue([]);
+
+    processor.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(executor.execute).toHaveBeenCalledTimes(1);
+    expect(executor.execute).toHaveBeenCalledWith(job1, expect.anything());
+    expect(job2.active).toBe(false);
+
+    // The depleted limiter's name is excluded until a token is back
+    const { excludeNames } = adapter.getConcurrentJobs.mock.calls[1]?.[1] ?? {};
+    expect(excludeNames).toContain('test');
+
+    adapter.getConcurrentJobs.mockResolvedValueOnce([job2]);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(executor.execute).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(executor.execute).toHaveBeenCalledTimes(2);
+    expect(executor.execute).toHaveBeenLastCalledWith(job2, expect.anything());
+  });
+
+  describe('batch workers', () => {
+    beforeEach(() => {
+      jest.spyOn(executor, 'executeBatch').mockResolvedValue(undefined);
+    });
+
+    it('should claim up to maxBatchSize jobs for one call', async () => {
+      registry.addBatchWorker({
+        name: 'analytics',
+        workerFn: jest.fn(),
+        options: { maxBatchSize: 3 },
+      });
+      const jobs = [createJob('analytics', 1), createJob('analytics', 2)];
+      adapter.getConcurrentJobs
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(jobs)
+        .mockResolvedValue([]);
+
+      processor.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(adapter.getConcurrentJobs).toHaveBeenNthCalledWith(1, 2, {
+        excludeNames: ['analytics'],
+      });
+      expect(adapter.getConcurrentJobs).toHaveBeenNthCalledWith(2, 3, {
+        names: ['analytics'],
+      });
+      expect(executor.executeBatch).toHaveBeenCalledTimes(1);
+      expect(executor.executeBatch).toHaveBeenCalledWith(
+        jobs,
+        registry.getWorker('analytics')
+      );
+      expect(executor.execute).not.toHaveBeenCalled();
+    });
+
+    it('should wait up to maxWaitMs for a partial batch to fill', async () => {
+      registry.addBatchWorker({
+        name: 'analytics',
+        workerFn: jest.fn(),
+        options: { maxBatchSize: 3, maxWaitMs: 1000 },
+      });
+      const job = createJob('analytics', 1);
+      adapter.getConcurrentJobs.mockImplementation(async (_limit, options) =>
+        options?.names ? [job] : []
+      );
+
+      processor.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(executor.executeBatch).not.toHaveBeenCalled();
+      expect(job.active).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(executor.executeBatch).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(executor.executeBatch).toHaveBeenCalledWith(
+        [job],
+        expect.anything()
+      );
+    });
+  });
+
   it('should not require NetInfo if monitorNetwork is false', async () => {
     const localProcessor = new JobProcessor({
       adapter,
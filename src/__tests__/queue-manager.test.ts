@@ -0,0 +1,173 @@
+import { QueueManager } from '../queue-manager';
+import { MemoryAdapter } from '../adapters/memory';
+import { createJob, transitionJob } from '../utils/helpers';
+import '../jest/mock';
+
+describe('QueueManager', () => {
+  let adapter: MemoryAdapter;
+  let manager: QueueManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    adapter = new MemoryAdapter();
+    manager = new QueueManager(adapter, { concurrency: 2 });
+  });
+
+  afterEach(async () => {
+    await manager.stop({ drain: false });
+    jest.useRealTimers();
+  });
+
+  it('should only run jobs added to the same queue', async () => {
+    const uploads = manager.createQueue('uploads');
+    const telemetry = manager.createQueue('telemetry');
+    const uploadWorker = jest.fn().mockResolvedValue(undefined);
+    const telemetryWorker = jest.fn().mockResolvedValue(undefined);
+    uploads.addWorker('send', uploadWorker);
+    telemetry.addWorker('send', telemetryWorker);
+
+    const uploadId = await uploads.addJob('send', { file: 'a.jpg' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(uploadWorker).toHaveBeenCalledWith(
+      uploadId,
+      { file: 'a.jpg' },
+      expect.anything()
+    );
+    expect(telemetryWorker).not.toHaveBeenCalled();
+  });
+
+  it('should keep concurrency and paused jobs per queue', async () => {
+    const uploads = manager.createQueue('uploads', { concurrency: 1 });
+    const telemetry = manager.createQueue('telemetry');
+    const blockingWorker = () => new Promise<void>(() => {});
+    const uploadWorker = jest.fn(blockingWorker);
+    const telemetryWorker = jest.fn(blockingWorker);
+    uploads.addWorker('send', uploadWorker);
+    telemetry.addWorker('send', telemetryWorker);
+    uploads.pauseJob('send');
+
+    for (const queue of [uploads, uploads, telemetry, telemetry]) {
+      await queue.addJob('send', {});
+    }
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(uploadWorker).not.toHaveBeenCalled();
+    expect(telemetryWorker).toHaveBeenCalledTimes(2);
+
+    uploads.resumeJob('send');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(uploadWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share rate limiters between queues', async () => {
+    const uploads = manager.createQueue('uploads');
+    const telemetry = manager.createQueue('telemetry');
+    manager.addLimiter('api', { max: 1, duration: 1000 });
+    telemetry.addLimiter('backend', { max: 1, duration: 1000 });
+    const uploadWorker = jest.fn().mockResolvedValue(undefined);
+    const telemetryWorker = jest.fn().mockResolvedValue(undefined);
+    for (const queue of [uploads, telemetry]) {
+      queue.addWorker('send', uploadWorker, { limiter: 'api' });
+      queue.addWorker('log', telemetryWorker, { limiter: 'backend' });
+    }
+
+    await uploads.addJob('send', {});
+    await telemetry.addJob('send', {});
+    await uploads.addJob('log', {});
+    await telemetry.addJob('log', {});
+    await jest.advanceTimersByTimeAsync(0);
+    expect(uploadWorker).toHaveBeenCalledTimes(1);
+    expect(telemetryWorker).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(uploadWorker).toHaveBeenCalledTimes(2);
+    expect(telemetryWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('should recover the shared storage once, before the first queue starts', async () => {
+    const recoverSpy = jest.spyOn(adapter, 'recover');
+    const uploads = manager.createQueue('uploads');
+    const telemetry = manager.createQueue('telemetry');
+    const ghost = createJob('send', {}, {}, 'uploads');
+    transitionJob(ghost, 'active');
+    await adapter.addJob(ghost);
+
+    await telemetry.start();
+    expect(recoverSpy).toHaveBeenCalledTimes(1);
+
+    const uploadWorker = jest.fn().mockResolvedValue(undefined);
+    uploads.addWorker('send', uploadWorker);
+    await manager.start();
+    await manager.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(recoverSpy).toHaveBeenCalledTimes(1);
+    expect(uploadWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not reset jobs of a queue started before the manager', async () => {
+    const recoverSpy = jest.spyOn(adapter, 'recover');
+    const uploads = manager.createQueue('uploads');
+    let finish: () => void = () => {};
+    uploads.addWorker(
+      'send',
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+    const success = jest.fn();
+    const failure = jest.fn();
+    uploads.on('success', success);
+    uploads.on('failure', failure);
+
+    const jobId = await uploads.addJob('send', {});
+    await jest.advanceTimersByTimeAsync(0);
+    expect((await adapter.getJob(jobId))?.status).toBe('active');
+
+    await manager.start();
+    expect((await adapter.getJob(jobId))?.status).toBe('active');
+
+    finish();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(recoverSpy).toHaveBeenCalledTimes(1);
+    expect(success).toHaveBeenCalledWith(
+      expect.objectContaining({ id: jobId }),
+      undefined
+    );
+    expect(failure).not.toHaveBeenCalled();
+  });
+
+  it('should count and list jobs per queue', async () => {
+    const uploads = manager.createQueue('uploads');
+    const telemetry = manager.createQueue('telemetry');
+    await uploads.addJob('send', {}, { autoStart: false });
+    await telemetry.addJob('send', {}, { autoStart: false });
+    await telemetry.addJob('ping', {}, { autoStart: false });
+
+    expect((await uploads.getJobCounts()).total).toBe(1);
+    expect((await telemetry.getJobs()).map((j) => j.name).sort()).toEqual([
+      'ping',
+      'send',
+    ]);
+  });
+
+  it('should not let a queue change jobs of another queue', async () => {
+    const uploads = manager.createQueue('uploads');
+    const telemetry = manager.createQueue('telemetry');
+    const jobId = await uploads.addJob('send', {}, { autoStart: false });
+
+    expect(await telemetry.cancelJob(jobId)).toBe(false);
+    expect(await telemetry.updatePriority(jobId, 10)).toBe(false);
+    expect(await uploads.updatePriority(jobId, 10)).toBe(true);
+  });
+
+  it('should create each named queue once', () => {
+    const uploads = manager.createQueue('uploads');
+
+    expect(uploads.name).toBe('uploads');
+    expect(manager.getQueue('uploads')).toBe(uploads);
+    expect(manager.getQueues()).toEqual([uploads]);
+    expect(() => manager.createQueue('uploads')).toThrow(
+      'Queue uploads already exists'
+    );
+  });
+});
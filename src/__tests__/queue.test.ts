@@ -1,6 +1,12 @@
 import { Queue } from '../queue';
 import { MemoryAdapter } from '../adapters/memory';
-import { createJob } from '../utils/helpers';
+import { createJob, transitionJob } from '../utils/helpers';
+import {
+  JobCancelledError,
+  JobDependencyError,
+  JobExpiredError,
+  JobNotFoundError,
+} from '../errors';
 import '../jest/mock';
 
 describe('Queue Integration', () => {
@@ -29,13 +35,331 @@ describe('Queue Integration', () => {
     // Allow process loop to run
     await jest.advanceTimersByTimeAsync(0);
 
-    expect(workerFn).toHaveBeenCalledWith(jobId, { foo: 'bar' });
+    expect(workerFn).toHaveBeenCalledWith(
+      jobId,
+      { foo: 'bar' },
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
     expect(successSpy).toHaveBeenCalled();
 
     const job = await adapter.getJob(jobId);
     expect(job).toBeNull();
   });
 
+  describe('addJobs', () => {
+    it('should add every job in one write and start processing once', async () => {
+      const workerFn = jest.fn().mockResolvedValue(undefined);
+      queue.addWorker('upload', workerFn);
+      const addJobsSpy = jest.spyOn(adapter, 'addJobs');
+      const startSpy = jest.spyOn(queue, 'start');
+
+      const ids = await queue.addJobs([
+        { name: 'upload', payload: { photo: 1 } },
+        { name: 'upload', payload: { photo: 2 }, options: { priority: 1 } },
+      ]);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(ids).toHaveLength(2);
+      expect(addJobsSpy).toHaveBeenCalledTimes(1);
+      expect(startSpy).toHaveBeenCalledTimes(1);
+      expect(workerFn.mock.calls.map(([id]) => id)).toEqual([ids[1], ids[0]]);
+    });
+
+    it('should return existing ids for duplicates', async () => {
+      const existingId = await queue.addJob(
+        'sync',
+        {},
+        { uniqueKey: 'sync', autoStart: false }
+      );
+
+      const ids = await queue.addJobs([
+        { name: 'sync', options: { uniqueKey: 'sync', autoStart: false } },
+        { name: 'sync', options: { jobId: 'custom', autoStart: false } },
+      ]);
+
+      expect(ids).toEqual([existingId, 'custom']);
+    });
+
+    it('should add jobs one by one when the adapter has no addJobs', async () => {
+      Object.assign(adapter, { addJobs: undefined });
+
+      await queue.addJobs([
+        { name: 'sync', options: { autoStart: false } },
+        { name: 'sync', options: { autoStart: false } },
+      ]);
+
+      expect(await adapter.getJobs()).toHaveLength(2);
+    });
+
+    it('should reject throttled jobs', async () => {
+      await expect(
+        queue.addJobs([
+          { name: 'sync', options: { throttle: { key: 'sync', ms: 1000 } } },
+        ])
+      ).rejects.toThrow('Throttled jobs cannot be added in bulk');
+      expect(await adapter.getJobs()).toEqual([]);
+    });
+  });
+
+  it('should return the existing id for duplicate unique keys', async () => {
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+    queue.addWorker('sync', workerFn);
+
+    const first = await queue.addJob('sync', {}, { uniqueKey: 'sync' });
+    const second = await queue.addJob('sync', {}, { uniqueKey: 'sync' });
+    expect(second).toBe(first);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(workerFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should debounce jobs sharing a key', async () => {
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+    queue.addWorker('save-draft', workerFn);
+    const debounce = { key: 'draft', ms: 1000 };
+
+    const id = await queue.addJob('save-draft', { text: 'h' }, { debounce });
+    await jest.advanceTimersByTimeAsync(600);
+    await queue.addJob('save-draft', { text: 'hi' }, { debounce });
+    await jest.advanceTimersByTimeAsync(600);
+    expect(workerFn).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(400);
+    expect(workerFn).toHaveBeenCalledTimes(1);
+    expect(workerFn).toHaveBeenCalledWith(
+      id,
+      { text: 'hi' },
+      expect.anything()
+    );
+  });
+
+  it('should throttle jobs sharing a key', async () => {
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+    queue.addWorker('refresh', workerFn);
+    const throttle = { key: 'refresh', ms: 1000 };
+
+    const first = await queue.addJob('refresh', {}, { throttle });
+    expect(await queue.addJob('refresh', {}, { throttle })).toBe(first);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(workerFn).toHaveBeenCalledTimes(1);
+
+    expect(await queue.addJob('refresh', {}, { throttle })).not.toBe(first);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(workerFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share a rate limiter across job names', async () => {
+    const upload = jest.fn().mockResolvedValue(undefined);
+    const sync = jest.fn().mockResolvedValue(undefined);
+    queue.addLimiter('api', { max: 2, duration: 1000 });
+    queue.addWorker('upload', upload, { limiter: 'api' });
+    queue.addWorker('sync', sync, { limiter: 'api' });
+
+    await queue.addJob('upload', {});
+    await queue.addJob('sync', {});
+    await queue.addJob('upload', {});
+    await jest.advanceTimersByTimeAsync(0);
+    expect(upload.mock.calls.length + sync.mock.calls.length).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(upload.mock.calls.length + sync.mock.calls.length).toBe(3);
+  });
+
+  it('should run batch workers with per-job results', async () => {
+    const batchFn = jest.fn(async (jobs: { payload: number }[]) =>
+      jobs.map((job) => (job.payload % 2 ? new Error('Odd') : job.payload * 10))
+    );
+    queue.addBatchWorker<number, number>('analytics', batchFn, {
+      maxBatchSize: 10,
+    });
+    const successSpy = jest.fn();
+    const failedSpy = jest.fn();
+    queue.on('success', successSpy);
+    queue.on('failed', failedSpy);
+
+    const odd = await queue.addJob('analytics', 1, { autoStart: false });
+    await queue.addJob('analytics', 2, { autoStart: false });
+    await queue.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(batchFn).toHaveBeenCalledTimes(1);
+    expect(successSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: 2 }),
+      20
+    );
+    expect(failedSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ id: odd }),
+      new Error('Odd')
+    );
+  });
+
+  it('should resolve waitForJob with the worker result', async () => {
+    queue.addWorker<{ n: number }, number>('double', async (_id, payload) => {
+      return payload.n * 2;
+    });
+
+    const successSpy = jest.fn();
+    queue.on('success', successSpy);
+
+    const jobId = await queue.addJob('double', { n: 21 });
+    const result = queue.waitForJob<number>(jobId);
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(result).resolves.toBe(42);
+    expect(successSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ id: jobId }),
+      42
+    );
+  });
+
+  it('should reject waitForJob when the job finally fails', async () => {
+    const error = new Error('Upload rejected');
+    queue.addWorker('upload', jest.fn().mockRejectedValue(error));
+
+    const jobId = await queue.addJob('upload', {}, { autoStart: false });
+    const result = queue.waitForJob(jobId);
+    result.catch(() => {});
+    queue.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(result).rejects.toBe(error);
+    expect(queue.listenerCount('success')).toBe(0);
+  });
+
+  it('should reject waitForJob when the job expires before it runs', async () => {
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+    queue.addWorker('upload', workerFn);
+
+    const jobId = await queue.addJob(
+      'upload',
+      {},
+      { ttl: 1000, autoStart: false }
+    );
+    const result = queue.waitForJob(jobId);
+    result.catch(() => {});
+    await jest.advanceTimersByTimeAsync(2000);
+    queue.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(result).rejects.toBeInstanceOf(JobExpiredError);
+    expect(workerFn).not.toHaveBeenCalled();
+    expect(await adapter.getJob(jobId)).toBeNull();
+  });
+
+  it('should reject waitForJob for unknown jobs', async () => {
+    await expect(queue.waitForJob('missing')).rejects.toBeInstanceOf(
+      JobNotFoundError
+    );
+  });
+
+  it('should reject waitForJob for a job in the DLQ', async () => {
+    queue.addWorker('upload', jest.fn().mockRejectedValue(new Error('Denied')));
+    const jobId = await queue.addJob('upload', {});
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(queue.waitForJob(jobId)).rejects.toThrow('Denied');
+  });
+
+  it('should resolve waitForJob for a retained completed job', async () => {
+    queue = new Queue(adapter, { removeOnComplete: 10 });
+    queue.addWorker('export', jest.fn().mockResolvedValue('report.csv'));
+    const jobId = await queue.addJob('export', {});
+    await jest.advanceTimersByTimeAsync(0);
+
+    const job = await adapter.getJob(jobId);
+    expect(job?.status).toBe('completed');
+    await expect(queue.waitForJob(jobId)).resolves.toBe('report.csv');
+    await expect(queue.cancelJob(jobId)).resolves.toBe(false);
+  });
+
+  it('should cancel a waiting job', async () => {
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+    queue.addWorker('draft', workerFn);
+
+    const cancelledSpy = jest.fn();
+    queue.on('cancelled', cancelledSpy);
+
+    const jobId = await queue.addJob('draft', {}, { autoStart: false });
+    const result = queue.waitForJob(jobId);
+    result.catch(() => {});
+
+    await expect(queue.cancelJob(jobId)).resolves.toBe(true);
+    await expect(result).rejects.toBeInstanceOf(JobCancelledError);
+    expect(cancelledSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ id: jobId })
+    );
+
+    queue.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(workerFn).not.toHaveBeenCalled();
+    expect(await adapter.getJob(jobId)).toBeNull();
+  });
+
+  it('should abort a running job on cancel', async () => {
+    let signal: AbortSignal | undefined;
+    queue.addWorker('upload', (_id, _payload, context) => {
+      signal = context.signal;
+      return new Promise<void>(() => {});
+    });
+
+    const failureSpy = jest.fn();
+    const cancelledSpy = jest.fn();
+    queue.on('failure', failureSpy);
+    queue.on('cancelled', cancelledSpy);
+
+    const jobId = await queue.addJob('upload', {}, { attempts: 3 });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(signal?.aborted).toBe(false);
+
+    await expect(queue.cancelJob(jobId)).resolves.toBe(true);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(signal?.aborted).toBe(true);
+    expect(cancelledSpy).toHaveBeenCalledTimes(1);
+    expect(failureSpy).not.toHaveBeenCalled();
+    expect(await adapter.getJob(jobId)).toBeNull();
+  });
+
+  it('should not run a job claimed after cancel read it', async () => {
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+    queue.addWorker('upload', workerFn);
+    const cancelledSpy = jest.fn();
+    queue.on('cancelled', cancelledSpy);
+
+    // Hold the processor between claiming the job and starting it
+    let release = () => {};
+    const claimed = new Promise<void>((resolve) => (release = resolve));
+    const getConcurrentJobs = adapter.getConcurrentJobs.bind(adapter);
+    jest
+      .spyOn(adapter, 'getConcurrentJobs')
+      .mockImplementationOnce(async (count, options) => {
+        const jobs = await getConcurrentJobs(count, options);
+        await claimed;
+        return jobs;
+      });
+
+    const jobId = await queue.addJob('upload', {}, { autoStart: false });
+    const getJob = adapter.getJob.bind(adapter);
+    jest.spyOn(adapter, 'getJob').mockImplementationOnce(async (id) => {
+      const job = await getJob(id);
+      queue.start();
+      await jest.advanceTimersByTimeAsync(0);
+      return job && { ...job };
+    });
+
+    await expect(queue.cancelJob(jobId)).resolves.toBe(true);
+    release();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(workerFn).not.toHaveBeenCalled();
+    expect(cancelledSpy).toHaveBeenCalledTimes(1);
+    expect(await adapter.getJob(jobId)).toBeNull();
+  });
+
+  it('should return false when cancelling an unknown job', async () => {
+    await expect(queue.cancelJob('missing')).resolves.toBe(false);
+  });
+
   it('should handle retries on failure', async () => {
     const error = new Error('Transient failure');
     const workerFn = jest
@@ -72,6 +396,346 @@ describe('Queue Integration', () => {
     expect(workerFn).toHaveBeenCalledTimes(2);
   });
 
+  it('should retry exactly when a fixed backoff has elapsed', async () => {
+    const workerFn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Fail once'))
+      .mockResolvedValueOnce(undefined);
+    queue.addWorker('retry-job', workerFn);
+
+    await queue.addJob(
+      'retry-job',
+      {},
+      { attempts: 2, backoff: { type: 'fixed', delay: 2000 } }
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    expect(workerFn).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(workerFn).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(workerFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run delayed jobs only once they are due', async () => {
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+    queue.addWorker('reminder', workerFn);
+
+    await queue.addJob('reminder', {}, { delay: 10000 });
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(workerFn).not.toHaveBeenCalled();
+
+    // An immediate job is not held back by the pending wake-up
+    await queue.addJob('reminder', { now: true });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(workerFn).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(workerFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run recurring jobs until they are removed', async () => {
+    const workerFn = jest.fn().mockResolvedValue(undefined);
+    queue.addWorker('cleanup', workerFn);
+
+    const id = await queue.addRecurring(
+      'cleanup',
+      { days: 7 },
+      { every: 1000 }
+    );
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(workerFn).toHaveBeenCalledTimes(2);
+    expect(workerFn).toHaveBeenCalledWith(
+      expect.any(String),
+      { days: 7 },
+      expect.anything()
+    );
+
+    expect(await queue.removeRecurring(id)).toBe(true);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(workerFn).toHaveBeenCalledTimes(2);
+    expect(await queue.getRecurringJobs()).toHaveLength(0);
+  });
+
+  it('should run dependent jobs after their parents succeed', async () => {
+    const order: string[] = [];
+    queue.addWorker('album', async () => {
+      order.push('album');
+    });
+    queue.addWorker('photo', async () => {
+      order.push('photo');
+    });
+
+    const album = await queue.addJob('album', {}, { autoStart: false });
+    await queue.addJob('photo', {}, { dependsOn: [album], priority: 10 });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(order).toEqual(['album', 'photo']);
+  });
+
+  it('should fail dependents when a parent is cancelled', async () => {
+    queue.addWorker('photo', jest.fn().mockResolvedValue(undefined));
+    const album = await queue.addJob('album', {}, { autoStart: false });
+    const photo = await queue.addJob(
+      'photo',
+      {},
+      { dependsOn: [album], autoStart: false }
+    );
+    const result = queue.waitForJob(photo);
+    result.catch(() => {});
+
+    await queue.cancelJob(album);
+    await expect(result).rejects.toBeInstanceOf(JobDependencyError);
+  });
+
+  describe('dead letter queue', () => {
+    const addDeadJob = async (name: string) => {
+      const jobId = await queue.addJob(name, { name });
+      await jest.advanceTimersByTimeAsync(0);
+      return jobId;
+    };
+
+    it('should move jobs that fail for good to the DLQ', async () => {
+      queue.addWorker('upload', jest.fn().mockRejectedValue(new Error('Fail')));
+      const jobId = await addDeadJob('upload');
+
+      expect(await adapter.getJob(jobId)).toBeNull();
+      const [dead] = await queue.getDeadJobs();
+      expect(dead?.id).toBe(jobId);
+      expect(dead?.attemptHistory).toHaveLength(1);
+    });
+
+    it('should retry a dead job with its attempts reset', async () => {
+      const workerFn = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Fail'))
+        .mockResolvedValueOnce('done');
+      queue.addWorker('upload', workerFn);
+      const jobId = await addDeadJob('upload');
+
+      const result = queue.waitForJob(jobId);
+      expect(await queue.retryDeadJob(jobId)).toBe(true);
+      await jest.advanceTimersByTimeAsync(0);
+
+      await expect(result).resolves.toBe('done');
+      expect(workerFn).toHaveBeenCalledTimes(2);
+      expect(await queue.getDeadJobs()).toEqual([]);
+      expect(await queue.retryDeadJob(jobId)).toBe(false);
+    });
+
+    it('should retry every dead job', async () => {
+      const workerFn = jest.fn().mockRejectedValue(new Error('Fail'));
+      queue.addWorker('upload', workerFn);
+      await addDeadJob('upload');
+      await addDeadJob('upload');
+
+      workerFn.mockResolvedValue(undefined);
+      expect(await queue.retryAllDead()).toBe(2);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(workerFn).toHaveBeenCalledTimes(4);
+      expect(await queue.getDeadJobs()).toEqual([]);
+    });
+
+    it('should purge dead jobs older than the given age', async () => {
+      queue.addWorker('upload', jest.fn().mockRejectedValue(new Error('Fail')));
+      await addDeadJob('upload');
+      await jest.advanceTimersByTimeAsync(60000);
+      const recentId = await addDeadJob('upload');
+
+      expect(await queue.purgeDeadJobs({ olderThan: 30000 })).toBe(1);
+      expect((await queue.getDeadJobs()).map((j) => j.id)).toEqual([recentId]);
+      expect(await queue.purgeDeadJobs()).toBe(1);
+      expect(await queue.getDeadJobs()).toEqual([]);
+    });
+
+    it('should throw when the adapter has no DLQ', async () => {
+      Object.assign(adapter, { getDeadJobs: undefined });
+
+      await expect(queue.getDeadJobs()).rejects.toThrow(
+        'The storage adapter does not support the dead letter queue'
+      );
+    });
+  });
+
+  describe('introspection', () => {
+    beforeEach(async () => {
+      await queue.addJob('upload', {}, { autoStart: false, tags: ['photos'] });
+      await queue.addJob('upload', {}, { autoStart: false, delay: 1000 });
+      await queue.addJob('sync', {}, { autoStart: false });
+    });
+
+    it('should count jobs by state and name', async () => {
+      const counts = await queue.getJobCounts();
+
+      expect(counts.total).toBe(3);
+      expect(counts.states).toMatchObject({ waiting: 2, delayed: 1 });
+      expect(counts.names.upload).toMatchObject({ waiting: 1, delayed: 1 });
+    });
+
+    it('should list jobs matching a query', async () => {
+      const jobs = await queue.getJobs({
+        names: ['upload'],
+        states: ['waiting'],
+      });
+      expect(jobs.map((j) => j.tags)).toEqual([['photos']]);
+      expect(await queue.getJobs({ limit: 2 })).toHaveLength(2);
+    });
+
+    it('should filter in memory when the adapter cannot query', async () => {
+      Object.assign(adapter, { queryJobs: undefined, getJobCounts: undefined });
+
+      expect((await queue.getJobCounts()).states.delayed).toBe(1);
+      const [job] = await queue.getJobs({ tags: ['photos'] });
+      expect(job?.name).toBe('upload');
+    });
+  });
+
+  describe('job management', () => {
+    const addActiveJob = async () => {
+      const job = createJob('upload', {});
+      transitionJob(job, 'active');
+      await adapter.addJob(job);
+      return job.id;
+    };
+
+    it('should promote a delayed job to run now', async () => {
+      const workerFn = jest.fn().mockResolvedValue(undefined);
+      queue.addWorker('upload', workerFn);
+      const jobId = await queue.addJob('upload', {}, { delay: 60000 });
+
+      expect(await queue.promoteJob(jobId)).toBe(true);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(workerFn).toHaveBeenCalledTimes(1);
+      expect(await queue.promoteJob(jobId)).toBe(false);
+    });
+
+    it('should hold a paused job until it is resumed', async () => {
+      const workerFn = jest.fn().mockResolvedValue(undefined);
+      queue.addWorker('upload', workerFn);
+      const jobId = await queue.addJob('upload', {}, { autoStart: false });
+      const delayedId = await queue.addJob(
+        'upload',
+        {},
+        { delay: 60000, autoStart: false }
+      );
+
+      expect(await queue.pauseJobById(jobId)).toBe(true);
+      expect(await queue.pauseJobById(delayedId)).toBe(true);
+      expect(await queue.pauseJobById(jobId)).toBe(false);
+      expect(await queue.updatePriority(jobId, 10)).toBe(true);
+      queue.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(workerFn).not.toHaveBeenCalled();
+      expect((await adapter.getJob(jobId))?.status).toBe('paused');
+
+      expect(await queue.resumeJobById(jobId)).toBe(true);
+      expect(await queue.resumeJobById(delayedId)).toBe(true);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(workerFn).toHaveBeenCalledTimes(1);
+      expect((await adapter.getJob(delayedId))?.status).toBe('delayed');
+      expect(await queue.resumeJobById(jobId)).toBe(false);
+    });
+
+    it('should update the priority and payload of a pending job', async () => {
+      const jobId = await queue.addJob(
+        'upload',
+        { file: 'a.jpg' },
+        { autoStart: false, metaData: { source: 'camera' } }
+      );
+
+      expect(await queue.updatePriority(jobId, 10)).toBe(true);
+      expect(
+        await queue.updatePayload(jobId, {
+          payload: { file: 'b.jpg' },
+          metaData: { album: 'trip' },
+        })
+      ).toBe(true);
+
+      expect(await adapter.getJob(jobId)).toMatchObject({
+        priority: 10,
+        payload: { file: 'b.jpg' },
+        metaData: { source: 'camera', album: 'trip' },
+      });
+    });
+
+    it('should not change or remove a running job', async () => {
+      const jobId = await addActiveJob();
+
+      expect(await queue.updatePriority(jobId, 10)).toBe(false);
+      expect(await queue.updatePayload(jobId, { payload: {} })).toBe(false);
+      expect(await queue.promoteJob(jobId)).toBe(false);
+      expect(await queue.pauseJobById(jobId)).toBe(false);
+      expect(await queue.removeJob(jobId)).toBe(false);
+      expect((await adapter.getJob(jobId))?.priority).toBe(0);
+    });
+
+    it('should not change a job claimed after it was read', async () => {
+      const jobId = await queue.addJob('upload', {}, { autoStart: false });
+      const getJob = adapter.getJob.bind(adapter);
+      jest.spyOn(adapter, 'getJob').mockImplementationOnce(async (id) => {
+        const job = await getJob(id);
+        await adapter.getConcurrentJobs(1);
+        return job && { ...job };
+      });
+
+      expect(await queue.updatePriority(jobId, 10)).toBe(false);
+      expect((await adapter.getJob(jobId))?.priority).toBe(0);
+    });
+
+    it('should retry a failed job kept in storage', async () => {
+      Object.assign(adapter, { moveToDLQ: undefined });
+      const workerFn = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Fail'))
+        .mockResolvedValueOnce(undefined);
+      queue.addWorker('upload', workerFn);
+      const jobId = await queue.addJob('upload', {});
+      await jest.advanceTimersByTimeAsync(0);
+      expect((await adapter.getJob(jobId))?.status).toBe('failed');
+
+      expect(await queue.retryJob(jobId)).toBe(true);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(workerFn).toHaveBeenCalledTimes(2);
+      expect(await queue.retryJob(jobId)).toBe(false);
+    });
+
+    it('should cancel a pending job when removing it', async () => {
+      const album = await queue.addJob('album', {}, { autoStart: false });
+      const photo = await queue.addJob(
+        'photo',
+        {},
+        { dependsOn: [album], autoStart: false }
+      );
+      const cancelledSpy = jest.fn();
+      queue.on('cancelled', cancelledSpy);
+      const result = queue.waitForJob(photo);
+      result.catch(() => {});
+
+      expect(await queue.removeJob(album)).toBe(true);
+
+      expect(await adapter.getJob(album)).toBeNull();
+      expect(cancelledSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ id: album })
+      );
+      await expect(result).rejects.toBeInstanceOf(JobDependencyError);
+      expect(await queue.removeJob(album)).toBe(false);
+    });
+
+    it('should remove a dead job', async () => {
+      queue.addWorker('upload', jest.fn().mockRejectedValue(new Error('Fail')));
+      const jobId = await queue.addJob('upload', {});
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(await queue.removeJob(jobId)).toBe(true);
+      expect(await queue.getDeadJobs()).toEqual([]);
+    });
+  });
+
   it('should respect pause and resume', async () => {
     const workerFn = jest.fn().mockResolvedValue(undefined);
     queue.addWorker('paused-job', workerFn);
@@ -89,7 +753,7 @@ describe('Queue Integration', () => {
 
   it('should recover ghost jobs on start', async () => {
     const stuckJob = createJob('stuck', {});
-    stuckJob.active = true;
+    transitionJob(stuckJob, 'active');
     await adapter.addJob(stuckJob);
 
     const workerFn = jest.fn().mockResolvedValue(undefined);
@@ -115,4 +779,69 @@ describe('Queue Integration', () => {
     await jest.advanceTimersByTimeAsync(500);
     expect(workerFn).not.toHaveBeenCalled();
   });
+
+  describe('stop', () => {
+    it('should wait for running jobs to finish by default', async () => {
+      queue.addWorker(
+        'slow',
+        () => new Promise<void>((resolve) => setTimeout(resolve, 1000))
+      );
+      const successSpy = jest.fn();
+      queue.on('success', successSpy);
+
+      await queue.addJob('slow', {});
+      await jest.advanceTimersByTimeAsync(0);
+
+      let stopped = false;
+      const stopping = queue.stop().then(() => {
+        stopped = true;
+      });
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(stopped).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(500);
+      await stopping;
+      expect(successSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort jobs still running after the drain timeout', async () => {
+      let signal: AbortSignal | undefined;
+      queue.addWorker('hung', (_id, _payload, context) => {
+        signal = context.signal;
+        return new Promise<void>(() => {});
+      });
+
+      const jobId = await queue.addJob('hung', {}, { attempts: 2 });
+      await jest.advanceTimersByTimeAsync(0);
+
+      const stopping = queue.stop({ drain: true, timeout: 2000 });
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(signal?.aborted).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await stopping;
+
+      expect(signal?.aborted).toBe(true);
+      const job = await adapter.getJob(jobId);
+      expect(job?.active).toBe(false);
+      expect(job?.attempts).toBe(0);
+    });
+
+    it('should abort running jobs immediately and requeue them', async () => {
+      queue.addWorker('hung', () => new Promise<void>(() => {}));
+      const failureSpy = jest.fn();
+      queue.on('failure', failureSpy);
+
+      const jobId = await queue.addJob('hung', {});
+      await jest.advanceTimersByTimeAsync(0);
+
+      await queue.stop({ drain: false });
+
+      const job = await adapter.getJob(jobId);
+      expect(job?.active).toBe(false);
+      expect(job?.attempts).toBe(0);
+      expect(failureSpy).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { JobRegistry } from '../registry';
 import { Worker } from '../worker';
+import { BatchWorker } from '../batch-worker';
 
 describe('JobRegistry', () => {
   let registry: JobRegistry;
@@ -40,4 +41,38 @@ describe('JobRegistry', () => {
     const worker = registry.getWorker('test');
     expect(worker?.options.concurrency).toBe(5);
   });
+
+  it('should share a limiter between workers that reference it', () => {
+    registry.addLimiter('api', { max: 1, duration: 1000 });
+    registry.addWorker({
+      name: 'a',
+      workerFn: jest.fn(),
+      options: { limiter: 'api' },
+    });
+    registry.addWorker({
+      name: 'b',
+      workerFn: jest.fn(),
+      options: { limiter: 'api' },
+    });
+    registry.addWorker({ name: 'c', workerFn: jest.fn() });
+
+    const limiter = registry.getLimiter('api');
+    expect(limiter).toBeDefined();
+    expect(registry.getLimiterForJob('a')).toBe(limiter);
+    expect(registry.getLimiterForJob('b')).toBe(limiter);
+    expect(registry.getLimiterForJob('c')).toBeUndefined();
+    expect(registry.getWorkerNames()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should register a batch worker under its job name', () => {
+    registry.addBatchWorker({
+      name: 'analytics',
+      workerFn: jest.fn(),
+      options: { maxBatchSize: 50 },
+    });
+
+    const worker = registry.getWorker('analytics');
+    expect(worker).toBeInstanceOf(BatchWorker);
+    expect(registry.getWorkerNames()).toEqual(['analytics']);
+  });
 });
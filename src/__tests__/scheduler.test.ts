@@ -0,0 +1,238 @@
+import { RecurringScheduler } from '../scheduler';
+import { MemoryAdapter } from '../adapters/memory';
+import type { Adapter, RecurringJob } from '../types';
+
+describe('RecurringScheduler', () => {
+  let scheduler: RecurringScheduler;
+  let adapter: MemoryAdapter;
+  let onJobsAdded: jest.Mock;
+
+  /** Stores a definition whose next run was missed while the app was not running. */
+  const saveMissed = async (
+    catchUp: RecurringJob['catchUp'],
+    missed: number,
+    maxCatchUp?: number
+  ) => {
+    const now = Date.now();
+    await adapter.saveRecurringJob({
+      id: 'sync',
+      name: 'sync',
+      payload: {},
+      every: 1000,
+      startAt: new Date(now - missed * 1000 - 500).toISOString(),
+      catchUp,
+      maxCatchUp,
+      jobOptions: {},
+      count: 0,
+      nextRunAt: new Date(now - missed * 1000 - 500).toISOString(),
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    adapter = new MemoryAdapter();
+    onJobsAdded = jest.fn();
+    scheduler = new RecurringScheduler({ adapter, onJobsAdded });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should create a job for every interval', async () => {
+    await scheduler.add('sync', { full: true }, { every: 1000 });
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(await adapter.getJobs()).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(1);
+    const jobs = await adapter.getJobs();
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]?.payload).toEqual({ full: true });
+    expect(jobs[0]?.metaData?.recurringId).toBe('sync');
+    expect(onJobsAdded).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(await adapter.getJobs()).toHaveLength(3);
+  });
+
+  it('should apply job options to each occurrence', async () => {
+    await scheduler.add('sync', {}, { every: 1000, priority: 5, attempts: 3 });
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    const [job] = await adapter.getJobs();
+    expect(job?.priority).toBe(5);
+    expect(job?.maxAttempts).toBe(3);
+  });
+
+  it('should run at startAt and stop after limit occurrences', async () => {
+    await scheduler.add(
+      'sync',
+      {},
+      { every: 1000, startAt: Date.now() + 5000, limit: 2 }
+    );
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(await adapter.getJobs()).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(await adapter.getJobs()).toHaveLength(2);
+    expect(await scheduler.getAll()).toHaveLength(0);
+  });
+
+  it('should not create occurrences after endAt', async () => {
+    await scheduler.add('sync', {}, { every: 1000, endAt: Date.now() + 2500 });
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(await adapter.getJobs()).toHaveLength(2);
+    expect(await scheduler.getAll()).toHaveLength(0);
+  });
+
+  it('should follow cron expressions', async () => {
+    jest.setSystemTime(new Date(2030, 0, 1, 10, 7));
+    await scheduler.add('report', {}, { cron: '*/15 * * * *' });
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(8 * 60 * 1000);
+    const [job] = await adapter.getJobs();
+    expect(job?.metaData?.scheduledAt).toBe(
+      new Date(2030, 0, 1, 10, 15).toISOString()
+    );
+  });
+
+  it('should stop creating jobs once removed', async () => {
+    await scheduler.add('sync', {}, { every: 1000 });
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await scheduler.remove('sync')).toBe(true);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(await adapter.getJobs()).toHaveLength(1);
+    expect(await scheduler.remove('sync')).toBe(false);
+  });
+
+  it('should only schedule definitions of its own queue', async () => {
+    const telemetry = new RecurringScheduler({
+      adapter,
+      queue: 'telemetry',
+      onJobsAdded,
+    });
+    await telemetry.add('ping', {}, { every: 1000 });
+    await scheduler.add('sync', {}, { every: 1000 });
+    await telemetry.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    telemetry.stop();
+
+    const jobs = await adapter.getJobs();
+    expect(jobs.map((j) => [j.name, j.queue])).toEqual([['ping', 'telemetry']]);
+    expect((await scheduler.getAll()).map((d) => d.id)).toEqual(['sync']);
+    await expect(scheduler.add('ping', {}, { every: 1000 })).rejects.toThrow(
+      'Recurring job ping already belongs to queue telemetry'
+    );
+  });
+
+  it('should keep progress when the same schedule is added again', async () => {
+    await scheduler.add('sync', {}, { every: 1000 });
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(1500);
+
+    await scheduler.add('sync', { updated: true }, { every: 1000 });
+    const [definition] = await scheduler.getAll();
+    expect(definition?.count).toBe(1);
+    expect(definition?.payload).toEqual({ updated: true });
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(await adapter.getJobs()).toHaveLength(2);
+  });
+
+  describe('catch-up', () => {
+    it('should run missed occurrences once by default', async () => {
+      await saveMissed('once', 5);
+      await scheduler.start();
+      expect(await adapter.getJobs()).toHaveLength(1);
+
+      // The next occurrence stays on the original schedule
+      await jest.advanceTimersByTimeAsync(500);
+      expect(await adapter.getJobs()).toHaveLength(2);
+    });
+
+    it('should run every missed occurrence', async () => {
+      await saveMissed('all', 5);
+      await scheduler.start();
+      expect(await adapter.getJobs()).toHaveLength(6);
+    });
+
+    it('should cap the missed occurrences it runs', async () => {
+      await saveMissed('all', 5, 2);
+      await scheduler.start();
+      expect(await adapter.getJobs()).toHaveLength(2);
+
+      // The other missed occurrences are skipped
+      await jest.advanceTimersByTimeAsync(500);
+      expect(await adapter.getJobs()).toHaveLength(3);
+    });
+
+    it('should cap missed occurrences at 100 by default', async () => {
+      await saveMissed('all', 250);
+      await scheduler.start();
+      expect(await adapter.getJobs()).toHaveLength(100);
+    });
+
+    it('should not add occurrences twice when nextRunAt was not saved', async () => {
+      await saveMissed('all', 2);
+      await scheduler.start();
+      expect(await adapter.getJobs()).toHaveLength(3);
+
+      // Restart with the definition as it was before the crash
+      scheduler.stop();
+      await saveMissed('all', 2);
+      scheduler = new RecurringScheduler({ adapter, onJobsAdded });
+      await scheduler.start();
+
+      const jobs = await adapter.getJobs();
+      expect(jobs).toHaveLength(3);
+      expect(jobs[0]?.id).toBe(`sync:${jobs[0]?.metaData?.scheduledAt}`);
+    });
+
+    it('should skip missed occurrences', async () => {
+      await saveMissed('skip', 5);
+      await scheduler.start();
+      expect(await adapter.getJobs()).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(await adapter.getJobs()).toHaveLength(1);
+    });
+  });
+
+  it('should validate the schedule', async () => {
+    await expect(scheduler.add('sync', {}, {})).rejects.toThrow(
+      'exactly one of cron or every'
+    );
+    await expect(
+      scheduler.add('sync', {}, { every: 1000, cron: '* * * * *' })
+    ).rejects.toThrow('exactly one of cron or every');
+    await expect(scheduler.add('sync', {}, { every: 0 })).rejects.toThrow(
+      'greater than 0'
+    );
+    await expect(scheduler.add('sync', {}, { cron: 'bad' })).rejects.toThrow(
+      'Invalid cron expression'
+    );
+    await expect(
+      scheduler.add('sync', {}, { every: 1000, maxCatchUp: 0 })
+    ).rejects.toThrow('maxCatchUp must be at least 1');
+  });
+
+  it('should reject adapters without recurring storage', async () => {
+    const limited: Adapter = new MemoryAdapter();
+    limited.saveRecurringJob = undefined;
+    scheduler = new RecurringScheduler({ adapter: limited, onJobsAdded });
+    await expect(scheduler.add('sync', {}, { every: 1000 })).rejects.toThrow(
+      'does not support recurring jobs'
+    );
+  });
+});
@@ -23,13 +23,35 @@ describe('Worker', () => {
     expect(worker.isBusy).toBe(false);
   });
 
+  it('should stay busy until all concurrent jobs finish', async () => {
+    const resolvers: Array<() => void> = [];
+    const workerFn = jest
+      .fn()
+      .mockImplementation(
+        () => new Promise<void>((resolve) => resolvers.push(resolve))
+      );
+
+    const worker = new Worker('test', workerFn);
+    const first = worker.execute(createJob('test', {}));
+    const second = worker.execute(createJob('test', {}));
+    expect(worker.activeJobs).toBe(2);
+
+    resolvers[0]?.();
+    await first;
+    expect(worker.isBusy).toBe(true);
+
+    resolvers[1]?.();
+    await second;
+    expect(worker.isBusy).toBe(false);
+  });
+
   it('should call lifecycle callbacks on success', async () => {
     const onStart = jest.fn();
     const onSuccess = jest.fn();
     const onFailure = jest.fn();
     const onComplete = jest.fn();
 
-    const workerFn = jest.fn().mockResolvedValue(undefined);
+    const workerFn = jest.fn().mockResolvedValue('done');
     const worker = new Worker('test', workerFn, {
       onStart,
       onSuccess,
@@ -38,13 +60,16 @@ describe('Worker', () => {
     });
 
     const job = createJob('test', { data: 123 });
-    await worker.execute(job);
+    await expect(worker.execute(job)).resolves.toBe('done');
 
     expect(onStart).toHaveBeenCalledWith(job);
-    expect(onSuccess).toHaveBeenCalledWith(job, null);
+    expect(onSuccess).toHaveBeenCalledWith(job, 'done');
     expect(onFailure).not.toHaveBeenCalled();
     expect(onComplete).toHaveBeenCalledWith(job);
-    expect(workerFn).toHaveBeenCalledWith(job.id, job.payload);
+    expect(workerFn).toHaveBeenCalledWith(job.id, job.payload, {
+      signal: expect.any(AbortSignal),
+      reportProgress: expect.any(Function),
+    });
   });
 
   it('should call lifecycle callbacks on failure', async () => {
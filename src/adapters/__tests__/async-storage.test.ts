@@ -1,4 +1,6 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AsyncStorageAdapter } from '../async-storage';
+import { runAdapterConformanceTests } from '../../jest/conformance';
 import { createJob } from '../../utils/helpers';
 
 // Mock AsyncStorage
@@ -7,6 +9,8 @@ jest.mock('@react-native-async-storage/async-storage', () =>
 );
 
 describe('AsyncStorageAdapter', () => {
+  runAdapterConformanceTests(() => new AsyncStorageAdapter());
+
   let adapter: AsyncStorageAdapter;
 
   beforeEach(async () => {
@@ -14,83 +18,62 @@ describe('AsyncStorageAdapter', () => {
     await adapter.deleteAll();
   });
 
-  it('should add and retrieve a job', async () => {
-    const job = createJob('test', { foo: 'bar' });
-    await adapter.addJob(job);
-
-    const retrieved = await adapter.getJob(job.id);
-    expect(retrieved).not.toBeNull();
-    expect(retrieved?.id).toBe(job.id);
-    expect(retrieved?.name).toBe(job.name);
-    expect(retrieved?.payload).toEqual(job.payload);
-  });
+  it('should add jobs in bulk with a single write', async () => {
+    const setItem = jest.mocked(AsyncStorage.setItem);
+    setItem.mockClear();
 
-  it('should return all jobs', async () => {
-    const job1 = createJob('test1', {});
-    const job2 = createJob('test2', {});
-    await adapter.addJob(job1);
-    await adapter.addJob(job2);
+    await adapter.addJobs([
+      { job: createJob('sync', {}) },
+      { job: createJob('upload', {}) },
+    ]);
 
-    const all = await adapter.getJobs();
-    expect(all).toHaveLength(2);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(await adapter.getJobs()).toHaveLength(2);
   });
 
-  it('should update a job', async () => {
-    const job = createJob('test', {});
-    await adapter.addJob(job);
+  it('should reject adds whose write fails', async () => {
+    const error = new Error('Disk full');
+    jest
+      .mocked(AsyncStorage.setItem)
+      .mockRejectedValueOnce(error)
+      .mockRejectedValueOnce(error);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
 
-    job.active = true;
-    job.attempts = 1;
-    await adapter.updateJob(job);
-
-    const updated = await adapter.getJob(job.id);
-    expect(updated?.active).toBe(true);
-    expect(updated?.attempts).toBe(1);
-  });
+    await expect(adapter.addJob(createJob('test', {}))).rejects.toBe(error);
+    await expect(
+      adapter.addJobs([{ job: createJob('test', {}) }])
+    ).rejects.toBe(error);
+    expect(await adapter.getJobs()).toEqual([]);
 
-  it('should remove a job', async () => {
     const job = createJob('test', {});
     await adapter.addJob(job);
-    await adapter.removeJob(job);
-
-    const retrieved = await adapter.getJob(job.id);
-    expect(retrieved).toBeNull();
+    expect((await adapter.getJobs()).map((j) => j.id)).toEqual([job.id]);
+    errorSpy.mockRestore();
   });
 
-  it('should fetch concurrent jobs and mark them active', async () => {
-    const job1 = createJob('test', {}, { priority: 10 });
-    const job2 = createJob('test', {}, { priority: 5 });
-    await adapter.addJob(job1);
-    await adapter.addJob(job2);
-
-    const batch = await adapter.getConcurrentJobs(1);
-    expect(batch).toHaveLength(1);
-    if (batch[0]) {
-      expect(batch[0].id).toBe(job1.id);
-      expect(batch[0].active).toBe(true);
-    }
-
-    const nextBatch = await adapter.getConcurrentJobs(1);
-    expect(nextBatch).toHaveLength(1);
-    if (nextBatch[0]) {
-      expect(nextBatch[0].id).toBe(job2.id);
-    }
+  it('should derive the status of jobs stored before it existed', async () => {
+    const { status, ...legacy } = createJob('test', {});
+    await AsyncStorage.setItem(
+      'react-native-task-queue-jobs',
+      JSON.stringify([legacy])
+    );
+
+    expect(status).toBe('waiting');
+    expect((await adapter.getJob(legacy.id))?.status).toBe('waiting');
+    const [claimed] = await adapter.getConcurrentJobs(1);
+    expect(claimed?.status).toBe('active');
   });
 
-  it('should clear all jobs', async () => {
-    await adapter.addJob(createJob('test', {}));
-    await adapter.deleteAll();
-    const all = await adapter.getJobs();
-    expect(all).toHaveLength(0);
-  });
+  it('should drop closed throttle windows when a window is claimed', async () => {
+    const closed = new Date(Date.now() - 1).toISOString();
+    const open = new Date(Date.now() + 60000).toISOString();
 
-  it('should handle recover (reset active jobs)', async () => {
-    const job = createJob('test', {});
-    job.active = true;
-    await adapter.addJob(job);
+    await adapter.claimThrottleWindow('first', 'a', closed);
+    await adapter.claimThrottleWindow('second', 'b', open);
 
-    await adapter.recover();
-    const recovered = await adapter.getJob(job.id);
-    expect(recovered?.active).toBe(false);
+    const stored = await AsyncStorage.getItem(
+      'react-native-task-queue-jobs:throttle'
+    );
+    expect(Object.keys(JSON.parse(stored ?? '{}'))).toEqual(['second']);
   });
 });
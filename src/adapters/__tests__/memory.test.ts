@@ -1,91 +1,32 @@
 import { MemoryAdapter } from '../memory';
-import { createJob } from '../../utils/helpers';
+import { runAdapterConformanceTests } from '../../jest/conformance';
 
 describe('MemoryAdapter', () => {
-  let adapter: MemoryAdapter;
-
-  beforeEach(async () => {
-    adapter = new MemoryAdapter();
-    await adapter.deleteAll();
-  });
-
-  it('should add and retrieve a job', async () => {
-    const job = createJob('test', { foo: 'bar' });
-    await adapter.addJob(job);
-
-    const retrieved = await adapter.getJob(job.id);
-    expect(retrieved).not.toBeNull();
-    expect(retrieved?.id).toBe(job.id);
-    expect(retrieved?.name).toBe(job.name);
-    expect(retrieved?.payload).toEqual(job.payload);
-  });
-
-  it('should return all jobs', async () => {
-    const job1 = createJob('test1', {});
-    const job2 = createJob('test2', {});
-    await adapter.addJob(job1);
-    await adapter.addJob(job2);
-
-    const all = await adapter.getJobs();
-    expect(all).toHaveLength(2);
-  });
-
-  it('should update a job', async () => {
-    const job = createJob('test', {});
-    await adapter.addJob(job);
-
-    job.active = true;
-    job.attempts = 1;
-    await adapter.updateJob(job);
-
-    const updated = await adapter.getJob(job.id);
-    expect(updated?.active).toBe(true);
-    expect(updated?.attempts).toBe(1);
-  });
-
-  it('should remove a job', async () => {
-    const job = createJob('test', {});
-    await adapter.addJob(job);
-    await adapter.removeJob(job);
-
-    const retrieved = await adapter.getJob(job.id);
-    expect(retrieved).toBeNull();
-  });
-
-  it('should fetch concurrent jobs and mark them active', async () => {
-    const job1 = createJob('test', {}, { priority: 10 });
-    const job2 = createJob('test', {}, { priority: 5 });
-    await adapter.addJob(job1);
-    await adapter.addJob(job2);
-
-    const batch = await adapter.getConcurrentJobs(1);
-    expect(batch).toHaveLength(1);
-    if (batch[0]) {
-      expect(batch[0].id).toBe(job1.id);
-      expect(batch[0].active).toBe(true);
-    }
-
-    const nextBatch = await adapter.getConcurrentJobs(1);
-    expect(nextBatch).toHaveLength(1);
-    if (nextBatch[0]) {
-      expect(nextBatch[0].id).toBe(job2.id);
-    }
-  });
-
-  it('should clear all jobs', async () => {
-    await adapter.addJob(createJob('test', {}));
-    await adapter.deleteAll();
-    const all = await adapter.getJobs();
-    expect(all).toHaveLength(0);
-  });
-
-  it('should handle recover (reset active jobs)', async () => {
-    const job = createJob('test', {});
-    job.active = true;
-    await adapter.addJob(job);
-
-    await adapter.recover();
-    const recovered = await adapter.getJob(job.id);
-    expect(recovered?.active).toBe(false);
+  runAdapterConformanceTests(() => new MemoryAdapter());
+
+  describe('without optional features', () => {
+    runAdapterConformanceTests(
+      () =>
+        Object.assign(new MemoryAdapter(), {
+          recover: undefined,
+          moveToDLQ: undefined,
+        }),
+      { skip: ['recover', 'deadLetterQueue'] }
+    );
+  });
+
+  it('should drop closed throttle windows when a window is claimed', async () => {
+    const adapter = new MemoryAdapter();
+    const closed = new Date(Date.now() - 1).toISOString();
+    const open = new Date(Date.now() + 60000).toISOString();
+
+    await adapter.claimThrottleWindow('first', 'a', closed);
+    await adapter.claimThrottleWindow('second', 'b', closed);
+    await adapter.claimThrottleWindow('third', 'c', open);
+
+    const { throttleWindows } = adapter as unknown as {
+      throttleWindows: Map<string, unknown>;
+    };
+    expect([...throttleWindows.keys()]).toEqual(['third']);
   });
 });
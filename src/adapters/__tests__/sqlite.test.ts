@@ -1,9 +1,14 @@
+import * as SQLite from 'expo-sqlite';
 import { SQLiteAdapter } from '../sqlite';
-import { createJob } from '../../utils/helpers';
+import { SchemaMigrationError } from '../../errors';
+import { runAdapterConformanceTests } from '../../jest/conformance';
+import { createJob, recordAttempt } from '../../utils/helpers';
 
 // We rely on the global mock in __mocks__/expo-sqlite.js
 
 describe('SQLiteAdapter', () => {
+  runAdapterConformanceTests(() => new SQLiteAdapter('test.db'));
+
   let adapter: SQLiteAdapter;
 
   beforeEach(async () => {
@@ -13,83 +18,177 @@ describe('SQLiteAdapter', () => {
     await adapter.deleteAll();
   });
 
-  it('should add and retrieve a job', async () => {
-    const job = createJob('test', { foo: 'bar' });
+  it('should persist the backoff and next attempt time', async () => {
+    const backoff = { type: 'exponential', delay: 1000, maxDelay: 60000 };
+    const job = createJob('test', {}, { backoff, attempts: 3 });
     await adapter.addJob(job);
 
-    const retrieved = await adapter.getJob(job.id);
-    expect(retrieved).not.toBeNull();
-    expect(retrieved?.id).toBe(job.id);
-    expect(retrieved?.name).toBe(job.name);
-    expect(retrieved?.payload).toEqual(job.payload);
-  });
-
-  it('should return all jobs', async () => {
-    const job1 = createJob('test1', {});
-    const job2 = createJob('test2', {});
-    await adapter.addJob(job1);
-    await adapter.addJob(job2);
+    job.attempts = 1;
+    job.runAt = new Date(Date.now() + 2000).toISOString();
+    await adapter.updateJob(job);
 
-    const all = await adapter.getJobs();
-    expect(all).toHaveLength(2);
+    const updated = await adapter.getJob(job.id);
+    expect(updated?.backoff).toEqual(backoff);
+    expect(updated?.runAt).toBe(job.runAt);
   });
 
-  it('should update a job', async () => {
-    const job = createJob('test', {});
+  it('should persist the attempt history', async () => {
+    const job = createJob('test', {}, { attempts: 3 });
     await adapter.addJob(job);
 
-    job.active = true;
     job.attempts = 1;
+    recordAttempt(job, new Error('Timeout'), Date.now() - 100, 10);
     await adapter.updateJob(job);
 
     const updated = await adapter.getJob(job.id);
-    expect(updated?.active).toBe(true);
-    expect(updated?.attempts).toBe(1);
+    expect(updated?.attemptHistory).toEqual(job.attemptHistory);
   });
 
-  it('should remove a job', async () => {
-    const job = createJob('test', {});
+  it('should bind the ids of claimed jobs', async () => {
+    const job = createJob('sync', {}, { jobId: "it's-a-job" });
     await adapter.addJob(job);
-    await adapter.removeJob(job);
 
-    const retrieved = await adapter.getJob(job.id);
-    expect(retrieved).toBeNull();
+    const claimed = await adapter.getConcurrentJobs(1);
+    expect(claimed.map((j) => j.id)).toEqual([job.id]);
+    expect((await adapter.getJob(job.id))?.status).toBe('active');
+    expect(SQLite.openDatabaseSync('test.db').runAsync).toHaveBeenCalledWith(
+      expect.stringContaining('WHERE id IN (?)'),
+      [job.id]
+    );
   });
 
-  it('should fetch concurrent jobs and mark them active', async () => {
-    const job1 = createJob('test', {}, { priority: 10 });
-    const job2 = createJob('test', {}, { priority: 5 });
-    await adapter.addJob(job1);
-    await adapter.addJob(job2);
-
-    const batch = await adapter.getConcurrentJobs(1);
-    expect(batch).toHaveLength(1);
-    if (batch[0]) {
-      expect(batch[0].id).toBe(job1.id);
-      expect(batch[0].active).toBe(true);
-    }
-
-    const nextBatch = await adapter.getConcurrentJobs(1);
-    expect(nextBatch).toHaveLength(1);
-    if (nextBatch[0]) {
-      expect(nextBatch[0].id).toBe(job2.id);
-    }
-  });
-
-  it('should clear all jobs', async () => {
-    await adapter.addJob(createJob('test', {}));
-    await adapter.deleteAll();
-    const all = await adapter.getJobs();
-    expect(all).toHaveLength(0);
-  });
-
-  it('should handle recover (reset active jobs)', async () => {
-    const job = createJob('test', {});
-    job.active = true;
-    await adapter.addJob(job);
-
-    await adapter.recover();
-    const recovered = await adapter.getJob(job.id);
-    expect(recovered?.active).toBe(false);
+  describe('migrations', () => {
+    const db = SQLite.openDatabaseSync('test.db');
+    const getVersions = async (tableName: string) =>
+      (
+        await db.getAllAsync<{ version: number }>(
+          `SELECT version FROM ${tableName}_migrations`
+        )
+      ).map((row) => row.version);
+
+    it('should apply each migration once, in order', async () => {
+      await new SQLiteAdapter('test.db', 'migrated_jobs').getJobs();
+      await new SQLiteAdapter('test.db', 'migrated_jobs').getJobs();
+
+      expect(await getVersions('migrated_jobs')).toEqual([
+        1, 2, 3, 4, 5, 6, 7, 8, 9,
+      ]);
+    });
+
+    it('should upgrade a table created by the first version', async () => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS legacy_jobs (
+          id TEXT PRIMARY KEY NOT NULL,
+          name TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          data TEXT,
+          priority INTEGER DEFAULT 0,
+          active INTEGER DEFAULT 0,
+          timeout INTEGER DEFAULT 25000,
+          created TEXT NOT NULL,
+          failed TEXT
+        );
+      `);
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS legacy_jobs_migrations (
+          version INTEGER PRIMARY KEY NOT NULL,
+          description TEXT NOT NULL,
+          appliedAt TEXT NOT NULL
+        );
+      `);
+      await db.runAsync(
+        'INSERT INTO legacy_jobs_migrations (version, description, appliedAt) VALUES (?, ?, ?)',
+        [1, 'create jobs table', new Date().toISOString()]
+      );
+      const legacyRows = [
+        { id: 'running', active: 1, attempts: 0, maxAttempts: 3 },
+        { id: 'exhausted', active: 0, attempts: 1, maxAttempts: 1 },
+        { id: 'retrying', active: 0, attempts: 1, maxAttempts: 3 },
+      ];
+      for (const { id, active, attempts, maxAttempts } of legacyRows) {
+        await db.runAsync(
+          'INSERT INTO legacy_jobs (id, name, payload, data, priority, active, timeout, created, failed) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [
+            id,
+            'sync',
+            '{}',
+            JSON.stringify({ attempts, maxAttempts }),
+            0,
+            active,
+            25000,
+            new Date().toISOString(),
+            null,
+          ]
+        );
+      }
+      const execAsync = jest.mocked(db.execAsync);
+      execAsync.mockClear();
+
+      const jobs = await new SQLiteAdapter('test.db', 'legacy_jobs').getJobs();
+
+      const statements = execAsync.mock.calls.map(([sql]) => sql.trim());
+      expect(statements).toEqual(
+        expect.arrayContaining([
+          'ALTER TABLE legacy_jobs ADD COLUMN runAt TEXT',
+          'ALTER TABLE legacy_jobs ADD COLUMN uniqueKey TEXT',
+          'ALTER TABLE legacy_jobs ADD COLUMN status TEXT',
+          "ALTER TABLE legacy_jobs ADD COLUMN queue TEXT NOT NULL DEFAULT 'default'",
+          expect.stringMatching(/^UPDATE legacy_jobs SET status = CASE/),
+        ])
+      );
+      expect(statements).not.toContainEqual(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS legacy_jobs (')
+      );
+      expect(await getVersions('legacy_jobs')).toEqual([
+        1, 2, 3, 4, 5, 6, 7, 8, 9,
+      ]);
+
+      const rows = await db.getAllAsync<{
+        id: string;
+        status: string;
+        queue: string;
+      }>('SELECT * FROM legacy_jobs');
+      expect(rows.map(({ id, status, queue }) => [id, status, queue])).toEqual([
+        ['running', 'active', 'default'],
+        ['exhausted', 'failed', 'default'],
+        ['retrying', 'waiting', 'default'],
+      ]);
+      expect(jobs.map((j) => j.status)).toEqual([
+        'active',
+        'failed',
+        'waiting',
+      ]);
+    });
+
+    it('should reject every call when a migration fails', async () => {
+      (db.execAsync as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('disk I/O error'));
+      const broken = new SQLiteAdapter('test.db', 'broken_jobs');
+
+      const error = await broken.getJobs().catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(SchemaMigrationError);
+      expect(error).toMatchObject({
+        tableName: 'broken_jobs',
+        version: 1,
+        message:
+          'Migration 1 (create jobs table) of table broken_jobs failed: disk I/O error',
+      });
+      await expect(broken.addJob(createJob('test', {}))).rejects.toBe(error);
+      expect(await getVersions('broken_jobs')).toEqual([]);
+    });
+
+    it('should reject tables migrated by a newer version', async () => {
+      await db.runAsync(
+        'INSERT INTO future_jobs_migrations (version, description, appliedAt) VALUES (?, ?, ?)',
+        [100, 'from the future', new Date().toISOString()]
+      );
+
+      await expect(
+        new SQLiteAdapter('test.db', 'future_jobs').getJobs()
+      ).rejects.toThrow(
+        'Table future_jobs is at schema version 100, newer than the latest known version 9'
+      );
+    });
   });
 });
@@ -1,5 +1,37 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { Adapter, Job } from '../types';
+import type {
+  Adapter,
+  AddJobEntry,
+  AddJobOptions,
+  ConcurrentJobsOptions,
+  Job,
+  JobCounts,
+  JobQuery,
+  JobStatus,
+  PruneJobsOptions,
+  RecurringJob,
+} from '../types';
+import {
+  countJobs,
+  filterJobs,
+  findDuplicateJob,
+  findNextRunAt,
+  findPrunableJobs,
+  getIdleStatus,
+  hasPendingParents,
+  isInQueue,
+  isJobReady,
+  releaseUniqueKey,
+  replaceDuplicateJob,
+  resolveJobStatus,
+  transitionJob,
+} from '../utils/helpers';
+
+/**
+ * Tail of the read-modify-write operations per storage key, shared by every
+ * adapter instance over the same key.
+ */
+const pendingWrites: Map<string, Promise<unknown>> = new Map();
 
 /**
  * Adapter for using AsyncStorage as the backend.
@@ -7,24 +39,87 @@ import type { Adapter, Job } from '../types';
  */
 export class AsyncStorageAdapter implements Adapter {
   private key: string;
+  private recurringKey: string;
+  private throttleKey: string;
+  private deadKey: string;
 
   constructor(key: string = 'react-native-task-queue-jobs') {
     this.key = key;
+    this.recurringKey = `${key}:recurring`;
+    this.throttleKey = `${key}:throttle`;
+    this.deadKey = `${key}:dlq`;
   }
 
-  async addJob<T = unknown>(job: Job<T>): Promise<void> {
-    const jobs = await this.getJobsFromStorage();
-    jobs.push(job);
-    await this.saveJobsToStorage(jobs);
+  async addJob<T = unknown>(
+    job: Job<T>,
+    options: AddJobOptions = {}
+  ): Promise<string | void> {
+    return this.exclusive(async () => {
+      const jobs = await this.getJobsFromStorage();
+      const { duplicateId, changed } = this.insertJob(jobs, job, options);
+      if (changed) {
+        await this.saveJobsToStorage(jobs, true);
+      }
+      return duplicateId;
+    });
+  }
+
+  /**
+   * Adds all jobs to the stored array and writes it back once.
+   */
+  async addJobs(entries: AddJobEntry[]): Promise<Array<string | void>> {
+    return this.exclusive(async () => {
+      const jobs = await this.getJobsFromStorage();
+      let changed = false;
+      const results = entries.map(({ job, options = {} }) => {
+        const result = this.insertJob(jobs, job, options);
+        changed = changed || result.changed;
+        return result.duplicateId;
+      });
+
+      if (changed) {
+        await this.saveJobsToStorage(jobs, true);
+      }
+      return results;
+    });
+  }
+
+  async getConcurrentJobs(
+    limit: number = 1,
+    options: ConcurrentJobsOptions = {}
+  ): Promise<Job<unknown>[]> {
+    return this.exclusive(() => this.claimJobs(limit, options));
   }
 
-  async getConcurrentJobs(limit: number = 1): Promise<Job<unknown>[]> {
+  /**
+   * Claims the next jobs; runs within `exclusive`.
+   */
+  private async claimJobs(
+    limit: number,
+    options: ConcurrentJobsOptions
+  ): Promise<Job<unknown>[]> {
     const allJobs = await this.getJobsFromStorage();
+    const deadJobs = await this.getDeadJobs();
+    const { names, queue } = options;
+    const excludeNames = options.excludeNames || [];
+    const now = Date.now();
+    const jobIds = new Set(
+      [...allJobs, ...deadJobs]
+        .filter((job) => job.status !== 'completed')
+        .map((job) => job.id)
+    );
 
-    // Filter active=false, failed=null
+    // Filter active=false, failed=null, due, no pending parents, requested and excluded names
     // Sort by priority DESC, created ASC
     const candidateJobs = allJobs
-      .filter((job) => !job.active && job.attempts < job.maxAttempts)
+      .filter(
+        (job) =>
+          isJobReady(job, now) &&
+          isInQueue(job, queue) &&
+          !hasPendingParents(job, jobIds) &&
+          (!names || names.includes(job.name)) &&
+          !excludeNames.includes(job.name)
+      )
       .sort((a, b) => {
         if (a.priority !== b.priority) {
           return b.priority - a.priority;
@@ -34,11 +129,11 @@ export class AsyncStorageAdapter implements Adapter {
       .slice(0, limit);
 
     // Perform a Read-Modify-Write cycle to claim the jobs.
-    // While AsyncStorage is not transactional, updating the source array immediately
-    // and saving it back reduces the window for race conditions in a single JS process.
+    // AsyncStorage is not transactional: `exclusive` keeps other writes of this
+    // JS process from interleaving, so no other claim can read these jobs as idle.
     if (candidateJobs.length > 0) {
       candidateJobs.forEach((job) => {
-        job.active = true;
+        transitionJob(job, 'active');
         // Update reference in the source array
         const idx = allJobs.findIndex((j) => j.id === job.id);
         if (idx !== -1) allJobs[idx] = job;
@@ -49,20 +144,66 @@ export class AsyncStorageAdapter implements Adapter {
     return candidateJobs;
   }
 
+  /**
+   * Returns the earliest run time among idle jobs that are not due yet.
+   */
+  async getNextRunAt(queue?: string): Promise<string | null> {
+    const jobs = await this.getJobsFromStorage();
+    return findNextRunAt(jobs.filter((job) => isInQueue(job, queue)));
+  }
+
   async updateJob<T = unknown>(job: Job<T>): Promise<void> {
-    let jobs = await this.getJobsFromStorage();
-    const index = jobs.findIndex((j) => j.id === job.id);
+    return this.exclusive(async () => {
+      const jobs = await this.getJobsFromStorage();
+      const index = jobs.findIndex((j) => j.id === job.id);
+
+      if (index !== -1) {
+        releaseUniqueKey(job);
+        jobs[index] = job as Job<unknown>;
+        await this.saveJobsToStorage(jobs);
+      }
+    });
+  }
+
+  async removeJob<T = unknown>(job: Job<T>): Promise<void> {
+    return this.exclusive(async () => {
+      const jobs = await this.getJobsFromStorage();
+      await this.saveJobsToStorage(jobs.filter((j) => j.id !== job.id));
+    });
+  }
+
+  /**
+   * Reads, checks and writes back within `exclusive`, like claiming, so no
+   * claim of this JS process can happen in between.
+   */
+  async updateJobIfStatus<T = unknown>(
+    job: Job<T>,
+    status: JobStatus
+  ): Promise<boolean> {
+    return this.exclusive(async () => {
+      const jobs = await this.getJobsFromStorage();
+      const index = jobs.findIndex((j) => j.id === job.id);
+      if (jobs[index]?.status !== status) return false;
 
-    if (index !== -1) {
+      releaseUniqueKey(job);
       jobs[index] = job as Job<unknown>;
       await this.saveJobsToStorage(jobs);
-    }
+      return true;
+    });
   }
 
-  async removeJob<T = unknown>(job: Job<T>): Promise<void> {
-    let jobs = await this.getJobsFromStorage();
-    jobs = jobs.filter((j) => j.id !== job.id);
-    await this.saveJobsToStorage(jobs);
+  async removeJobIfStatus<T = unknown>(
+    job: Job<T>,
+    status: JobStatus
+  ): Promise<boolean> {
+    return this.exclusive(async () => {
+      const jobs = await this.getJobsFromStorage();
+      const stored = jobs.find((j) => j.id === job.id);
+      if (stored?.status !== status) return false;
+
+      await this.saveJobsToStorage(jobs.filter((j) => j !== stored));
+      return true;
+    });
   }
 
   async getJob(id: string): Promise<Job<unknown> | null> {
@@ -74,44 +215,285 @@ export class AsyncStorageAdapter implements Adapter {
     return this.getJobsFromStorage();
   }
 
+  async queryJobs(query: JobQuery): Promise<Job<unknown>[]> {
+    return filterJobs(await this.getAllJobs(), query);
+  }
+
+  async getJobCounts(queue?: string): Promise<JobCounts> {
+    const jobs = await this.getAllJobs();
+    return countJobs(jobs.filter((job) => isInQueue(job, queue)));
+  }
+
+  async moveToDLQ<T = unknown>(job: Job<T>): Promise<void> {
+    return this.exclusive(async () => {
+      releaseUniqueKey(job);
+      const deadJobs = (await this.getDeadJobs()).filter(
+        (j) => j.id !== job.id
+      );
+      deadJobs.push(job as Job<unknown>);
+      await this.saveDeadJobsToStorage(deadJobs);
+      const jobs = await this.getJobsFromStorage();
+      await this.saveJobsToStorage(jobs.filter((j) => j.id !== job.id));
+    });
+  }
+
+  async getDeadJobs(): Promise<Job<unknown>[]> {
+    try {
+      const json = await AsyncStorage.getItem(this.deadKey);
+      return this.parseJobs(json);
+    } catch (e) {
+      console.error('AsyncStorageAdapter: Error reading dead jobs', e);
+      return [];
+    }
+  }
+
+  async restoreDeadJob<T = unknown>(job: Job<T>): Promise<void> {
+    return this.exclusive(async () => {
+      const jobs = (await this.getJobsFromStorage()).filter(
+        (j) => j.id !== job.id
+      );
+      jobs.push(job as Job<unknown>);
+      await this.saveJobsToStorage(jobs);
+      const deadJobs = await this.getDeadJobs();
+      await this.saveDeadJobsToStorage(deadJobs.filter((j) => j.id !== job.id));
+    });
+  }
+
+  async removeDeadJob(id: string): Promise<void> {
+    return this.exclusive(async () => {
+      const deadJobs = await this.getDeadJobs();
+      await this.saveDeadJobsToStorage(deadJobs.filter((j) => j.id !== id));
+    });
+  }
+
+  /**
+   * Deletes completed jobs, or dead jobs, beyond a retention limit.
+   */
+  async pruneJobs(
+    status: 'completed' | 'failed',
+    options: PruneJobsOptions
+  ): Promise<void> {
+    return this.exclusive(async () => {
+      const jobs =
+        status === 'completed'
+          ? await this.getJobsFromStorage()
+          : await this.getDeadJobs();
+      const prunable = new Set(
+        findPrunableJobs(
+          jobs.filter((job) => job.status === status),
+          options
+        ).map((job) => job.id)
+      );
+      if (prunable.size === 0) return;
+
+      const remaining = jobs.filter((job) => !prunable.has(job.id));
+      if (status === 'completed') {
+        await this.saveJobsToStorage(remaining);
+      } else {
+        await this.saveDeadJobsToStorage(remaining);
+      }
+    });
+  }
+
+  async saveRecurringJob<T = unknown>(
+    definition: RecurringJob<T>
+  ): Promise<void> {
+    return this.exclusive(async () => {
+      const definitions = (await this.getRecurringJobs()).filter(
+        (d) => d.id !== definition.id
+      );
+      definitions.push(definition as RecurringJob<unknown>);
+      await this.saveRecurringJobsToStorage(definitions);
+    });
+  }
+
+  async getRecurringJobs(): Promise<RecurringJob<unknown>[]> {
+    try {
+      const json = await AsyncStorage.getItem(this.recurringKey);
+      return json != null ? JSON.parse(json) : [];
+    } catch (e) {
+      console.error('AsyncStorageAdapter: Error reading recurring jobs', e);
+      return [];
+    }
+  }
+
+  async removeRecurringJob(id: string): Promise<void> {
+    return this.exclusive(async () => {
+      const definitions = await this.getRecurringJobs();
+      await this.saveRecurringJobsToStorage(
+        definitions.filter((d) => d.id !== id)
+      );
+    });
+  }
+
+  /**
+   * Reads, checks and writes back within `exclusive`, so two enqueues of the
+   * same key cannot both open a window. Closed windows are dropped on write.
+   */
+  async claimThrottleWindow(
+    key: string,
+    jobId: string,
+    until: string
+  ): Promise<string | void> {
+    return this.exclusive(async () => {
+      let windows: Record<string, { jobId: string; until: string }> = {};
+      try {
+        const json = await AsyncStorage.getItem(this.throttleKey);
+        windows = json != null ? JSON.parse(json) : {};
+      } catch (e) {
+        console.error('AsyncStorageAdapter: Error reading throttle windows', e);
+      }
+
+      const now = Date.now();
+      const current = windows[key];
+      if (current && new Date(current.until).getTime() > now) {
+        return current.jobId;
+      }
+
+      windows = Object.fromEntries(
+        Object.entries(windows).filter(
+          ([, window]) => new Date(window.until).getTime() > now
+        )
+      );
+      windows[key] = { jobId, until };
+      try {
+        await AsyncStorage.setItem(this.throttleKey, JSON.stringify(windows));
+      } catch (e) {
+        console.error('AsyncStorageAdapter: Error saving throttle windows', e);
+      }
+      return undefined;
+    });
+  }
+
   async deleteAll(): Promise<void> {
-    await AsyncStorage.removeItem(this.key);
+    return this.exclusive(async () => {
+      await AsyncStorage.removeItem(this.key);
+      await AsyncStorage.removeItem(this.deadKey);
+      await AsyncStorage.removeItem(this.throttleKey);
+    });
   }
 
   /**
    * Resets all active jobs to inactive state.
    */
   async recover(): Promise<void> {
-    const jobs = await this.getJobsFromStorage();
-    let hasChanges = false;
-    jobs.forEach((job) => {
-      if (job.active) {
-        job.active = false;
-        hasChanges = true;
+    return this.exclusive(async () => {
+      const jobs = await this.getJobsFromStorage();
+      let hasChanges = false;
+      jobs.forEach((job) => {
+        if (job.status === 'active') {
+          transitionJob(job, getIdleStatus(job));
+          hasChanges = true;
+        }
+      });
+
+      if (hasChanges) {
+        await this.saveJobsToStorage(jobs);
       }
     });
+  }
 
-    if (hasChanges) {
-      await this.saveJobsToStorage(jobs);
+  // Helper methods
+  /**
+   * Runs a read-modify-write of the stored jobs once the previous ones on the
+   * same key are done, so that writes of this JS process never interleave and
+   * overwrite each other (e.g. two claims of the same job).
+   */
+  private exclusive<R>(operation: () => Promise<R>): Promise<R> {
+    const previous = pendingWrites.get(this.key) ?? Promise.resolve();
+    const result = previous.then(operation);
+    pendingWrites.set(
+      this.key,
+      result.catch(() => undefined)
+    );
+    return result;
+  }
+
+  /**
+   * Adds a job to the loaded jobs, unless it is a duplicate.
+   * A duplicate's waiting job is updated instead when `replace` is set.
+   * @returns The id of the duplicate, and whether the loaded jobs changed.
+   */
+  private insertJob(
+    jobs: Job<unknown>[],
+    job: Job<unknown>,
+    options: AddJobOptions
+  ): { duplicateId?: string; changed: boolean } {
+    const duplicate = findDuplicateJob(job, jobs);
+    if (duplicate) {
+      const changed = !!options.replace && replaceDuplicateJob(duplicate, job);
+      return { duplicateId: duplicate.id, changed };
     }
+
+    jobs.push(job);
+    return { changed: true };
+  }
+
+  /**
+   * Returns stored and dead jobs.
+   */
+  private async getAllJobs(): Promise<Job<unknown>[]> {
+    return [
+      ...(await this.getJobsFromStorage()),
+      ...(await this.getDeadJobs()),
+    ];
   }
 
-  // Helper methods
   private async getJobsFromStorage(): Promise<Job<unknown>[]> {
     try {
       const json = await AsyncStorage.getItem(this.key);
-      return json != null ? JSON.parse(json) : [];
+      return this.parseJobs(json);
     } catch (e) {
       console.error('AsyncStorageAdapter: Error reading jobs', e);
       return [];
     }
   }
 
-  private async saveJobsToStorage(jobs: Job<unknown>[]): Promise<void> {
+  /**
+   * Parses stored jobs, deriving the status of jobs saved before it existed.
+   */
+  private parseJobs(json: string | null): Job<unknown>[] {
+    const jobs: Job<unknown>[] = json != null ? JSON.parse(json) : [];
+    jobs.forEach((job) => {
+      job.status = resolveJobStatus(job);
+    });
+    return jobs;
+  }
+
+  private async saveRecurringJobsToStorage(
+    definitions: RecurringJob<unknown>[]
+  ): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        this.recurringKey,
+        JSON.stringify(definitions)
+      );
+    } catch (e) {
+      console.error('AsyncStorageAdapter: Error saving recurring jobs', e);
+    }
+  }
+
+  private async saveDeadJobsToStorage(jobs: Job<unknown>[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.deadKey, JSON.stringify(jobs));
+    } catch (e) {
+      console.error('AsyncStorageAdapter: Error saving dead jobs', e);
+    }
+  }
+
+  /**
+   * @param rethrow - Rejects when the write fails instead of only logging it,
+   * so that adding jobs does not report jobs that were never stored.
+   */
+  private async saveJobsToStorage(
+    jobs: Job<unknown>[],
+    rethrow: boolean = false
+  ): Promise<void> {
     try {
       await AsyncStorage.setItem(this.key, JSON.stringify(jobs));
     } catch (e) {
       console.error('AsyncStorageAdapter: Error saving jobs', e);
+      if (rethrow) throw e;
     }
   }
 }
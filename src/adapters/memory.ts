@@ -1,4 +1,29 @@
-import type { Adapter, Job } from '../types';
+import type {
+  Adapter,
+  AddJobEntry,
+  AddJobOptions,
+  ConcurrentJobsOptions,
+  Job,
+  JobCounts,
+  JobQuery,
+  JobStatus,
+  PruneJobsOptions,
+  RecurringJob,
+} from '../types';
+import {
+  countJobs,
+  filterJobs,
+  findDuplicateJob,
+  findNextRunAt,
+  findPrunableJobs,
+  getIdleStatus,
+  hasPendingParents,
+  isInQueue,
+  isJobReady,
+  releaseUniqueKey,
+  replaceDuplicateJob,
+  transitionJob,
+} from '../utils/helpers';
 
 /**
  * An in-memory storage adapter for the queue.
@@ -8,19 +33,62 @@ import type { Adapter, Job } from '../types';
 export class MemoryAdapter implements Adapter {
   /** Map to store jobs in memory. */
   private jobs: Map<string, Job<unknown>> = new Map();
+  /** Map to store recurring job definitions in memory. */
+  private recurringJobs: Map<string, RecurringJob<unknown>> = new Map();
+  /** Map to store jobs that failed for good (the dead letter queue). */
+  private deadJobs: Map<string, Job<unknown>> = new Map();
+  /** Throttle windows by key. Closed ones are dropped on the next claim. */
+  private throttleWindows: Map<string, { jobId: string; until: string }> =
+    new Map();
+
+  async addJob<T = unknown>(
+    job: Job<T>,
+    options: AddJobOptions = {}
+  ): Promise<string | void> {
+    const duplicate = findDuplicateJob(job, this.jobs.values());
+    if (duplicate) {
+      if (options.replace) {
+        replaceDuplicateJob(duplicate, job);
+      }
+      return duplicate.id;
+    }
 
-  async addJob<T = unknown>(job: Job<T>): Promise<void> {
     // Cast to Job<unknown> to store in the generic map
     this.jobs.set(job.id, job as unknown as Job<unknown>);
   }
 
+  async addJobs(entries: AddJobEntry[]): Promise<Array<string | void>> {
+    const results: Array<string | void> = [];
+    for (const { job, options } of entries) {
+      results.push(await this.addJob(job, options));
+    }
+    return results;
+  }
+
   /**
    * Retrieves concurrent jobs from memory.
    * Filters for inactive and non-failed jobs, sorted by priority and creation time.
    */
-  async getConcurrentJobs(limit: number = 1): Promise<Job<unknown>[]> {
+  async getConcurrentJobs(
+    limit: number = 1,
+    options: ConcurrentJobsOptions = {}
+  ): Promise<Job<unknown>[]> {
+    const { names, queue } = options;
+    const excludeNames = options.excludeNames || [];
+    const now = Date.now();
+    const jobIds = new Set(this.deadJobs.keys());
+    for (const job of this.jobs.values()) {
+      if (job.status !== 'completed') jobIds.add(job.id);
+    }
     const jobs = Array.from(this.jobs.values())
-      .filter((job) => !job.active && job.attempts < job.maxAttempts)
+      .filter(
+        (job) =>
+          isJobReady(job, now) &&
+          isInQueue(job, queue) &&
+          !hasPendingParents(job, jobIds) &&
+          (!names || names.includes(job.name)) &&
+          !excludeNames.includes(job.name)
+      )
       .sort((a, b) => {
         // Sort by priority DESC, then created ASC
         if (a.priority !== b.priority) {
@@ -34,15 +102,25 @@ export class MemoryAdapter implements Adapter {
     // We mark the selected jobs as active immediately so subsequent calls in the same tick
     // (or after await) will see them as taken.
     for (const job of jobs) {
-      job.active = true;
+      transitionJob(job, 'active');
       this.jobs.set(job.id, job);
     }
 
     return jobs;
   }
 
+  /**
+   * Returns the earliest run time among idle jobs that are not due yet.
+   */
+  async getNextRunAt(queue?: string): Promise<string | null> {
+    return findNextRunAt(
+      Array.from(this.jobs.values()).filter((job) => isInQueue(job, queue))
+    );
+  }
+
   async updateJob<T = unknown>(job: Job<T>): Promise<void> {
     if (this.jobs.has(job.id)) {
+      releaseUniqueKey(job);
       this.jobs.set(job.id, job as unknown as Job<unknown>);
     }
   }
@@ -51,16 +129,122 @@ export class MemoryAdapter implements Adapter {
     this.jobs.delete(job.id);
   }
 
+  async updateJobIfStatus<T = unknown>(
+    job: Job<T>,
+    status: JobStatus
+  ): Promise<boolean> {
+    if (this.jobs.get(job.id)?.status !== status) return false;
+    await this.updateJob(job);
+    return true;
+  }
+
+  async removeJobIfStatus<T = unknown>(
+    job: Job<T>,
+    status: JobStatus
+  ): Promise<boolean> {
+    if (this.jobs.get(job.id)?.status !== status) return false;
+    this.jobs.delete(job.id);
+    return true;
+  }
+
   async getJob(id: string): Promise<Job<unknown> | null> {
-    return this.jobs.get(id) || null;
+    // A copy, so changes only apply once the caller stores them
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
   }
 
   async getJobs(): Promise<Job<unknown>[]> {
     return Array.from(this.jobs.values());
   }
 
+  async queryJobs(query: JobQuery): Promise<Job<unknown>[]> {
+    return filterJobs(this.getAllJobs(), query);
+  }
+
+  async getJobCounts(queue?: string): Promise<JobCounts> {
+    return countJobs(this.getAllJobs().filter((job) => isInQueue(job, queue)));
+  }
+
+  async moveToDLQ<T = unknown>(job: Job<T>): Promise<void> {
+    releaseUniqueKey(job);
+    this.deadJobs.set(job.id, job as unknown as Job<unknown>);
+    this.jobs.delete(job.id);
+  }
+
+  async getDeadJobs(): Promise<Job<unknown>[]> {
+    return Array.from(this.deadJobs.values());
+  }
+
+  async restoreDeadJob<T = unknown>(job: Job<T>): Promise<void> {
+    this.jobs.set(job.id, job as unknown as Job<unknown>);
+    this.deadJobs.delete(job.id);
+  }
+
+  async removeDeadJob(id: string): Promise<void> {
+    this.deadJobs.delete(id);
+  }
+
+  /**
+   * Deletes completed jobs, or dead jobs, beyond a retention limit.
+   */
+  async pruneJobs(
+    status: 'completed' | 'failed',
+    options: PruneJobsOptions
+  ): Promise<void> {
+    const store = status === 'completed' ? this.jobs : this.deadJobs;
+    const finished = Array.from(store.values()).filter(
+      (job) => job.status === status
+    );
+    for (const job of findPrunableJobs(finished, options)) {
+      store.delete(job.id);
+    }
+  }
+
+  async saveRecurringJob<T = unknown>(
+    definition: RecurringJob<T>
+  ): Promise<void> {
+    this.recurringJobs.set(
+      definition.id,
+      definition as unknown as RecurringJob<unknown>
+    );
+  }
+
+  async getRecurringJobs(): Promise<RecurringJob<unknown>[]> {
+    return Array.from(this.recurringJobs.values());
+  }
+
+  async removeRecurringJob(id: string): Promise<void> {
+    this.recurringJobs.delete(id);
+  }
+
+  async claimThrottleWindow(
+    key: string,
+    jobId: string,
+    until: string
+  ): Promise<string | void> {
+    const now = Date.now();
+    for (const [openKey, window] of this.throttleWindows) {
+      if (new Date(window.until).getTime() <= now) {
+        this.throttleWindows.delete(openKey);
+      }
+    }
+
+    const current = this.throttleWindows.get(key);
+    if (current) return current.jobId;
+    this.throttleWindows.set(key, { jobId, until });
+  }
+
   async deleteAll(): Promise<void> {
     this.jobs.clear();
+    this.deadJobs.clear();
+    this.throttleWindows.clear();
+  }
+
+  /**
+   * Returns stored and dead jobs.
+   */
+  private getAllJobs(): Job<unknown>[] {
+    return [...this.jobs.values(), ...this.deadJobs.values()];
   }
 
   /**
@@ -68,8 +252,8 @@ export class MemoryAdapter implements Adapter {
    */
   async recover(): Promise<void> {
     for (const job of this.jobs.values()) {
-      if (job.active) {
-        job.active = false;
+      if (job.status === 'active') {
+        transitionJob(job, getIdleStatus(job));
         this.jobs.set(job.id, job);
       }
     }
@@ -1,93 +1,379 @@
 import * as SQLite from 'expo-sqlite';
-import type { Adapter, Job, JobRow, JobOptions } from '../types';
-import { omit, pick } from '../utils/helpers';
+import type {
+  Adapter,
+  AddJobEntry,
+  AddJobOptions,
+  ConcurrentJobsOptions,
+  Job,
+  JobCounts,
+  JobOrderBy,
+  JobQuery,
+  JobRow,
+  JobOptions,
+  JobProgress,
+  JobStatus,
+  PruneJobsOptions,
+  RecurringJob,
+} from '../types';
+import { SchemaMigrationError } from '../errors';
+import {
+  DEFAULT_QUEUE,
+  countJobs,
+  findPrunableJobs,
+  getIdleStatus,
+  omit,
+  pick,
+  releaseUniqueKey,
+  resolveJobStatus,
+  transitionJob,
+} from '../utils/helpers';
+
+/**
+ * A step of the schema, applied once per job table in order of `version`.
+ * Released steps must never change: a schema change is a new step.
+ * Steps are idempotent, as tables created before migrations were recorded
+ * may already have some of their changes.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  up(tx: SQLite.SQLiteDatabase): Promise<void>;
+}
+
+/** SQL condition matching jobs that may be claimed once due: see `isJobReady`. */
+const IDLE_STATUSES = "status IN ('waiting', 'delayed')";
+
+/** The queue of a dead job, read from its stored JSON. */
+const DEAD_QUEUE = `COALESCE(json_extract(data, '$.queue'), '${DEFAULT_QUEUE}')`;
+
+/** Columns `queryJobs` may sort by. */
+const ORDER_COLUMNS: Record<JobOrderBy['field'], string> = {
+  created: 'created',
+  priority: 'priority',
+  runAt: 'runAt',
+};
+
+/** Columns written when a job is updated. */
+const UPDATE_ASSIGNMENTS =
+  'payload = ?, priority = ?, active = ?, status = ?, timeout = ?, failed = ?, runAt = ?, uniqueKey = ?, queue = ?, data = ?';
+
+/** Column list and placeholders for inserting a full job row. */
+const INSERT_COLUMNS =
+  '(id, name, payload, data, priority, active, timeout, created, failed, runAt, uniqueKey, status, queue) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)';
 
 export class SQLiteAdapter implements Adapter {
   private db: SQLite.SQLiteDatabase;
   private tableName: string;
+  private recurringTableName: string;
+  private dependenciesTableName: string;
+  private throttleTableName: string;
+  private deadTableName: string;
+  private migrationsTableName: string;
   private initPromise: Promise<void>;
 
   constructor(dbName: string = 'queue.db', tableName: string = 'queue_jobs') {
     this.tableName = tableName;
+    this.recurringTableName = `${tableName}_recurring`;
+    this.dependenciesTableName = `${tableName}_dependencies`;
+    this.throttleTableName = `${tableName}_throttle`;
+    this.deadTableName = `${tableName}_dlq`;
+    this.migrationsTableName = `${tableName}_migrations`;
     // Synchronously open the loop, standard for expo-sqlite now
     this.db = SQLite.openDatabaseSync(dbName);
     this.initPromise = this.init();
+    // A failed init is surfaced by every call, which awaits initPromise
+    this.initPromise.catch(() => {});
   }
 
+  /**
+   * Brings the tables up to date by applying the migrations not yet recorded
+   * for this job table, each in its own transaction.
+   * Applied versions are recorded per job table rather than in `PRAGMA user_version`,
+   * since several adapters may share one database.
+   * @throws {SchemaMigrationError} If a step fails, or the tables were migrated by a newer version.
+   */
   private async init(): Promise<void> {
     await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS ${this.tableName} (
-        id TEXT PRIMARY KEY NOT NULL,
-        name TEXT NOT NULL,
-        payload TEXT NOT NULL,
-        data TEXT,
-        priority INTEGER DEFAULT 0,
-        active INTEGER DEFAULT 0,
-        timeout INTEGER DEFAULT 25000,
-        created TEXT NOT NULL,
-        failed TEXT
+      CREATE TABLE IF NOT EXISTS ${this.migrationsTableName} (
+        version INTEGER PRIMARY KEY NOT NULL,
+        description TEXT NOT NULL,
+        appliedAt TEXT NOT NULL
       );
     `);
+
+    const migrations = this.getMigrations();
+    const latest = migrations[migrations.length - 1]?.version ?? 0;
+    const current = await this.getSchemaVersion(this.db);
+    if (current > latest) {
+      throw new SchemaMigrationError(
+        this.tableName,
+        current,
+        `Table ${this.tableName} is at schema version ${current}, newer than the latest known version ${latest}`
+      );
+    }
+
+    for (const migration of migrations) {
+      if (migration.version <= current) continue;
+      await this.applyMigration(migration);
+    }
   }
 
-  async addJob<T = unknown>(job: Job<T>): Promise<void> {
-    await this.initPromise;
-    await this.db.runAsync(
-      `INSERT OR REPLACE INTO ${this.tableName} (id, name, payload, data, priority, active, timeout, created, failed) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        job.id,
-        job.name,
-        JSON.stringify(job.payload),
-        JSON.stringify(
-          pick(job, [
-            'ttl',
-            'metaData',
-            'attempts',
-            'workerName',
-            'onlineOnly',
-            'maxAttempts',
-            'timeInterval',
-          ])
-        ),
-        job.priority,
-        job.active ? 1 : 0,
-        job.timeout,
-        job.created,
-        job.failed || null,
-      ]
+  /**
+   * Applies a migration and records it in the same transaction.
+   */
+  private async applyMigration(migration: Migration): Promise<void> {
+    const { version, description } = migration;
+    try {
+      await this.db.withExclusiveTransactionAsync(async (tx) => {
+        // Another adapter over the same table may have applied it meanwhile
+        if ((await this.getSchemaVersion(tx)) >= version) return;
+
+        await migration.up(tx);
+        await tx.runAsync(
+          `INSERT INTO ${this.migrationsTableName} (version, description, appliedAt) VALUES (?, ?, ?)`,
+          [version, description, new Date().toISOString()]
+        );
+      });
+    } catch (error) {
+      throw new SchemaMigrationError(
+        this.tableName,
+        version,
+        `Migration ${version} (${description}) of table ${
+          this.tableName
+        } failed: ${error instanceof Error ? error.message : String(error)}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Returns the latest version applied to this job table, or 0.
+   */
+  private async getSchemaVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+    const rows = await db.getAllAsync<{ version: number }>(
+      `SELECT version FROM ${this.migrationsTableName}`
     );
+    return Math.max(0, ...rows.map((row) => row.version));
+  }
+
+  /**
+   * The schema history of the job tables, oldest first.
+   */
+  private getMigrations(): Migration[] {
+    return [
+      {
+        version: 1,
+        description: 'create jobs table',
+        up: (tx) =>
+          tx.execAsync(`
+            CREATE TABLE IF NOT EXISTS ${this.tableName} (
+              id TEXT PRIMARY KEY NOT NULL,
+              name TEXT NOT NULL,
+              payload TEXT NOT NULL,
+              data TEXT,
+              priority INTEGER DEFAULT 0,
+              active INTEGER DEFAULT 0,
+              timeout INTEGER DEFAULT 25000,
+              created TEXT NOT NULL,
+              failed TEXT
+            );
+          `),
+      },
+      {
+        version: 2,
+        description: 'add runAt',
+        up: (tx) => this.addColumn(tx, 'runAt', 'TEXT'),
+      },
+      {
+        version: 3,
+        description: 'create recurring jobs table',
+        up: (tx) =>
+          tx.execAsync(`
+            CREATE TABLE IF NOT EXISTS ${this.recurringTableName} (
+              id TEXT PRIMARY KEY NOT NULL,
+              data TEXT NOT NULL
+            );
+          `),
+      },
+      {
+        version: 4,
+        description: 'create dependencies table',
+        up: (tx) =>
+          tx.execAsync(`
+            CREATE TABLE IF NOT EXISTS ${this.dependenciesTableName} (
+              jobId TEXT NOT NULL,
+              parentId TEXT NOT NULL,
+              PRIMARY KEY (jobId, parentId)
+            );
+          `),
+      },
+      {
+        version: 5,
+        description: 'add uniqueKey',
+        up: async (tx) => {
+          await this.addColumn(tx, 'uniqueKey', 'TEXT');
+          // Enforces deduplication: at most one stored job can hold a unique key
+          await tx.execAsync(
+            `CREATE UNIQUE INDEX IF NOT EXISTS ${this.tableName}_unique_key ON ${this.tableName} (uniqueKey) WHERE uniqueKey IS NOT NULL`
+          );
+        },
+      },
+      {
+        version: 6,
+        description: 'create throttle table',
+        up: (tx) =>
+          tx.execAsync(`
+            CREATE TABLE IF NOT EXISTS ${this.throttleTableName} (
+              id TEXT PRIMARY KEY NOT NULL,
+              jobId TEXT NOT NULL,
+              closesAt TEXT NOT NULL
+            );
+          `),
+      },
+      {
+        version: 7,
+        description: 'create dead letter queue table',
+        up: (tx) =>
+          tx.execAsync(`
+            CREATE TABLE IF NOT EXISTS ${this.deadTableName} (
+              id TEXT PRIMARY KEY NOT NULL,
+              failed TEXT,
+              data TEXT NOT NULL
+            );
+          `),
+      },
+      {
+        version: 8,
+        description: 'add status',
+        up: async (tx) => {
+          await this.addColumn(tx, 'status', 'TEXT');
+          await this.backfillStatus(tx);
+        },
+      },
+      {
+        version: 9,
+        description: 'add queue',
+        up: (tx) =>
+          this.addColumn(
+            tx,
+            'queue',
+            `TEXT NOT NULL DEFAULT '${DEFAULT_QUEUE}'`
+          ),
+      },
+    ];
+  }
+
+  /**
+   * Adds a column to the jobs table, unless the table already has it.
+   */
+  private async addColumn(
+    tx: SQLite.SQLiteDatabase,
+    column: string,
+    type: string
+  ): Promise<void> {
+    const columns = await tx.getAllAsync<{ name: string }>(
+      `PRAGMA table_info(${this.tableName})`
+    );
+    if (columns.some(({ name }) => name === column)) return;
+
+    await tx.execAsync(
+      `ALTER TABLE ${this.tableName} ADD COLUMN ${column} ${type}`
+    );
+  }
+
+  /**
+   * Derives the status of rows stored before the status column existed,
+   * the same way `resolveJobStatus` does for in-memory jobs.
+   */
+  private async backfillStatus(tx: SQLite.SQLiteDatabase): Promise<void> {
+    await tx.execAsync(`
+      UPDATE ${this.tableName} SET status = CASE
+        WHEN active = 1 THEN 'active'
+        WHEN json_extract(data, '$.attempts') >= COALESCE(json_extract(data, '$.maxAttempts'), 1) THEN 'failed'
+        WHEN runAt > strftime('%Y-%m-%dT%H:%M:%fZ', 'now') THEN 'delayed'
+        ELSE 'waiting'
+      END
+      WHERE status IS NULL
+    `);
+  }
+
+  async addJob<T = unknown>(
+    job: Job<T>,
+    options: AddJobOptions = {}
+  ): Promise<string | void> {
+    const [duplicateId] = await this.addJobs([
+      { job: job as Job<unknown>, options },
+    ]);
+    return duplicateId;
+  }
+
+  /**
+   * Inserts all jobs in a single transaction, so either all of them are stored or none.
+   */
+  async addJobs(entries: AddJobEntry[]): Promise<Array<string | void>> {
+    await this.initPromise;
+    const results: Array<string | void> = [];
+
+    await this.db.withExclusiveTransactionAsync(async (tx) => {
+      for (const { job, options = {} } of entries) {
+        results.push(await this.insertJob(tx, job, options));
+      }
+    });
+
+    return results;
   }
 
-  async getConcurrentJobs(limit: number = 1): Promise<Job<unknown>[]> {
+  async getConcurrentJobs(
+    limit: number = 1,
+    options: ConcurrentJobsOptions = {}
+  ): Promise<Job<unknown>[]> {
     await this.initPromise;
 
     let jobs: Job<unknown>[] = [];
+    const names = options.names || [];
+    const excludeNames = options.excludeNames || [];
+    const placeholders = (values: string[]) => values.map(() => '?').join(', ');
+    const nameFilter = [
+      options.queue !== undefined ? 'AND queue = ?' : '',
+      options.names ? `AND name IN (${placeholders(names)})` : '',
+      excludeNames.length
+        ? `AND name NOT IN (${placeholders(excludeNames)})`
+        : '',
+    ].join(' ');
 
     // Use an EXCLUSIVE transaction.
-    // 1. SELECT items that are currently idle (active=0).
+    // 1. SELECT items that are currently idle (waiting or delayed), due (runAt has passed)
+    //    and not waiting for a parent job that is still in the table (and not completed) or the DLQ.
     // 2. Immediately mark them as active=1 within the same transaction lock.
     // This guarantees that no other thread/process can read these same rows
     // before we have claimed them, preventing double-processing.
     await this.db.withExclusiveTransactionAsync(async (tx) => {
       const result = await tx.getAllAsync<JobRow>(
-        `SELECT * FROM ${this.tableName} WHERE active = 0 ORDER BY priority DESC, created ASC LIMIT ?`,
-        [limit]
+        `SELECT * FROM ${this.tableName} WHERE ${IDLE_STATUSES} AND (runAt IS NULL OR runAt <= ?) AND NOT EXISTS (SELECT 1 FROM ${this.dependenciesTableName} d WHERE d.jobId = ${this.tableName}.id AND (d.parentId IN (SELECT id FROM ${this.tableName} WHERE status != 'completed') OR d.parentId IN (SELECT id FROM ${this.deadTableName}))) ${nameFilter} ORDER BY priority DESC, created ASC LIMIT ?`,
+        [
+          new Date().toISOString(),
+          ...(options.queue !== undefined ? [options.queue] : []),
+          ...names,
+          ...excludeNames,
+          limit,
+        ]
       );
 
-      const mappedJobs = result
-        .map((row) => this.mapRowToJob(row))
-        .filter((job) => job.attempts < job.maxAttempts);
+      const mappedJobs = result.map((row) => this.mapRowToJob(row));
 
       if (mappedJobs.length > 0) {
-        // Mark all claimed jobs as active=1
-        const ids = mappedJobs
-          .map((j) => {
-            j.active = true; // Update local reference for parity
-            return `'${j.id}'`;
-          })
-          .join(',');
+        // Mark all claimed jobs as active
+        const ids = mappedJobs.map((j) => {
+          transitionJob(j, 'active'); // Update local reference for parity
+          return j.id;
+        });
         await tx.runAsync(
-          `UPDATE ${this.tableName} SET active = 1 WHERE id IN (${ids})`
+          `UPDATE ${
+            this.tableName
+          } SET active = 1, status = 'active' WHERE id IN (${placeholders(
+            ids
+          )})`,
+          ids
         );
       }
 
@@ -99,32 +385,114 @@ export class SQLiteAdapter implements Adapter {
 
   async updateJob<T = unknown>(job: Job<T>): Promise<void> {
     await this.initPromise;
+    releaseUniqueKey(job);
     await this.db.runAsync(
-      `UPDATE ${this.tableName} SET active = ?, failed = ?, data = ? WHERE id = ?`,
-      [
-        job.active ? 1 : 0,
-        job.failed || null,
-        JSON.stringify(
-          pick(job, [
-            'attempts',
-            'maxAttempts',
-            'timeInterval',
-            'ttl',
-            'onlineOnly',
-            'workerName',
-            'metaData',
-          ])
-        ),
-        job.id,
-      ]
+      `UPDATE ${this.tableName} SET ${UPDATE_ASSIGNMENTS} WHERE id = ?`,
+      [...this.toUpdateParams(job), job.id]
     );
   }
 
+  /**
+   * Updates a job in a single statement that only matches while the stored status is unchanged.
+   */
+  async updateJobIfStatus<T = unknown>(
+    job: Job<T>,
+    status: JobStatus
+  ): Promise<boolean> {
+    await this.initPromise;
+    releaseUniqueKey(job);
+    const result = await this.db.runAsync(
+      `UPDATE ${this.tableName} SET ${UPDATE_ASSIGNMENTS} WHERE status = ? AND id = ?`,
+      [...this.toUpdateParams(job), status, job.id]
+    );
+    return result.changes > 0;
+  }
+
+  async removeJobIfStatus<T = unknown>(
+    job: Job<T>,
+    status: JobStatus
+  ): Promise<boolean> {
+    await this.initPromise;
+    let removed = false;
+
+    await this.db.withExclusiveTransactionAsync(async (tx) => {
+      const result = await tx.runAsync(
+        `DELETE FROM ${this.tableName} WHERE status = ? AND id = ?`,
+        [status, job.id]
+      );
+      removed = result.changes > 0;
+      if (removed) {
+        await tx.runAsync(
+          `DELETE FROM ${this.dependenciesTableName} WHERE jobId = ?`,
+          [job.id]
+        );
+      }
+    });
+
+    return removed;
+  }
+
+  /**
+   * Binds a job to the columns of `UPDATE_ASSIGNMENTS`.
+   */
+  private toUpdateParams<T>(job: Job<T>): SQLite.SQLiteBindValue[] {
+    return [
+      JSON.stringify(job.payload),
+      job.priority,
+      job.active ? 1 : 0,
+      job.status,
+      job.timeout,
+      job.failed || null,
+      job.runAt || null,
+      job.uniqueKey || null,
+      job.queue ?? DEFAULT_QUEUE,
+      JSON.stringify(
+        pick(job, [
+          'attempts',
+          'maxAttempts',
+          'timeInterval',
+          'backoff',
+          'ttl',
+          'onlineOnly',
+          'workerName',
+          'metaData',
+          'progress',
+          'attemptHistory',
+          'dependsOn',
+          'onParentFailure',
+          'uniqueScope',
+          'removeOnComplete',
+          'removeOnFail',
+          'finishedAt',
+          'result',
+          'tags',
+        ])
+      ),
+    ];
+  }
+
   async removeJob<T = unknown>(job: Job<T>): Promise<void> {
     await this.initPromise;
     await this.db.runAsync(`DELETE FROM ${this.tableName} WHERE id = ?`, [
       job.id,
     ]);
+    await this.db.runAsync(
+      `DELETE FROM ${this.dependenciesTableName} WHERE jobId = ?`,
+      [job.id]
+    );
+  }
+
+  /**
+   * Returns the earliest run time among idle jobs that are not due yet.
+   */
+  async getNextRunAt(queue?: string): Promise<string | null> {
+    await this.initPromise;
+    const queueFilter = queue !== undefined ? 'queue = ? AND' : '';
+    const row = await this.db.getFirstAsync<{ runAt: string | null }>(
+      `SELECT MIN(runAt) AS runAt FROM ${this.tableName} WHERE ${queueFilter} ${IDLE_STATUSES} AND runAt > ?`,
+      [...(queue !== undefined ? [queue] : []), new Date().toISOString()]
+    );
+    return row?.runAt ?? null;
   }
 
   async getJob(id: string): Promise<Job<unknown> | null> {
@@ -149,28 +517,336 @@ export class SQLiteAdapter implements Adapter {
     return result.map((row) => this.mapRowToJob(row));
   }
 
+  /**
+   * Filters, sorts and pages jobs in SQL.
+   * Dead jobs are read from their stored JSON, in the same order as the job table.
+   */
+  async queryJobs(query: JobQuery): Promise<Job<unknown>[]> {
+    await this.initPromise;
+    const { names, states, tags, queue, orderBy, offset = 0, limit } = query;
+    const placeholders = (values: string[]) => values.map(() => '?').join(', ');
+    const conditions = [
+      queue !== undefined ? 'queue = ?' : '',
+      names ? `name IN (${placeholders(names)})` : '',
+      states ? `status IN (${placeholders(states)})` : '',
+      tags
+        ? `EXISTS (SELECT 1 FROM json_each(data, '$.tags') WHERE value IN (${placeholders(
+            tags
+          )}))`
+        : '',
+    ].filter(Boolean);
+
+    let order = 'priority DESC, created ASC';
+    if (orderBy) {
+      const column = ORDER_COLUMNS[orderBy.field];
+      if (!column) {
+        throw new Error(`Cannot order jobs by ${orderBy.field}`);
+      }
+      const direction = orderBy.direction === 'desc' ? 'DESC' : 'ASC';
+      order = `${column} ${direction}, created ASC`;
+    }
+
+    const rows = await this.db.getAllAsync<JobRow & { dead: number }>(
+      `SELECT * FROM (
+        SELECT id, name, payload, data, priority, active, timeout, created, failed, runAt, uniqueKey, status, queue, 0 AS dead FROM ${
+          this.tableName
+        }
+        UNION ALL
+        SELECT id, json_extract(data, '$.name'), NULL, data, json_extract(data, '$.priority'), 0, NULL, json_extract(data, '$.created'), failed, json_extract(data, '$.runAt'), NULL, json_extract(data, '$.status'), ${DEAD_QUEUE}, 1 FROM ${
+        this.deadTableName
+      }
+      ) ${
+        conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+      } ORDER BY ${order} LIMIT ? OFFSET ?`,
+      [
+        ...(queue !== undefined ? [queue] : []),
+        ...(names || []),
+        ...(states || []),
+        ...(tags || []),
+        limit ?? -1,
+        offset,
+      ]
+    );
+
+    return rows.map(({ dead, ...row }) =>
+      dead ? JSON.parse(row.data || '{}') : this.mapRowToJob(row)
+    );
+  }
+
+  /**
+   * Counts jobs with a single grouped query over the job table and the DLQ.
+   */
+  async getJobCounts(queue?: string): Promise<JobCounts> {
+    await this.initPromise;
+    const jobsFilter = queue !== undefined ? 'WHERE queue = ?' : '';
+    const deadFilter = queue !== undefined ? `WHERE ${DEAD_QUEUE} = ?` : '';
+    const rows = await this.db.getAllAsync<{
+      name: string;
+      status: JobStatus;
+      count: number;
+    }>(
+      `SELECT name, status, COUNT(*) AS count FROM ${this.tableName} ${jobsFilter} GROUP BY name, status
+      UNION ALL
+      SELECT json_extract(data, '$.name'), json_extract(data, '$.status'), COUNT(*) FROM ${this.deadTableName} ${deadFilter} GROUP BY 1, 2`,
+      queue !== undefined ? [queue, queue] : []
+    );
+    return countJobs(rows);
+  }
+
+  /**
+   * Moves a job to the DLQ table. Its dependency edges are kept for a later retry.
+   */
+  async moveToDLQ<T = unknown>(job: Job<T>): Promise<void> {
+    await this.initPromise;
+    releaseUniqueKey(job);
+    await this.db.withExclusiveTransactionAsync(async (tx) => {
+      await tx.runAsync(
+        `INSERT OR REPLACE INTO ${this.deadTableName} (id, failed, data) VALUES (?, ?, ?)`,
+        [job.id, job.failed || null, JSON.stringify(job)]
+      );
+      await tx.runAsync(`DELETE FROM ${this.tableName} WHERE id = ?`, [job.id]);
+    });
+  }
+
+  async getDeadJobs(): Promise<Job<unknown>[]> {
+    await this.initPromise;
+    const result = await this.db.getAllAsync<{ id: string; data: string }>(
+      `SELECT * FROM ${this.deadTableName}`
+    );
+    return result.map((row) => JSON.parse(row.data));
+  }
+
+  async restoreDeadJob<T = unknown>(job: Job<T>): Promise<void> {
+    await this.initPromise;
+    await this.db.withExclusiveTransactionAsync(async (tx) => {
+      await tx.runAsync(
+        `INSERT OR REPLACE INTO ${this.tableName} ${INSERT_COLUMNS}`,
+        this.toInsertParams(job)
+      );
+      await tx.runAsync(`DELETE FROM ${this.deadTableName} WHERE id = ?`, [
+        job.id,
+      ]);
+    });
+  }
+
+  async removeDeadJob(id: string): Promise<void> {
+    await this.initPromise;
+    await this.db.runAsync(`DELETE FROM ${this.deadTableName} WHERE id = ?`, [
+      id,
+    ]);
+    await this.db.runAsync(
+      `DELETE FROM ${this.dependenciesTableName} WHERE jobId = ?`,
+      [id]
+    );
+  }
+
+  /**
+   * Deletes completed jobs, or dead jobs, beyond a retention limit.
+   * Their dependency edges are deleted with them.
+   */
+  async pruneJobs(
+    status: 'completed' | 'failed',
+    options: PruneJobsOptions
+  ): Promise<void> {
+    await this.initPromise;
+    const table = status === 'completed' ? this.tableName : this.deadTableName;
+
+    await this.db.withExclusiveTransactionAsync(async (tx) => {
+      let jobs: Job<unknown>[];
+      if (status === 'completed') {
+        const rows = await tx.getAllAsync<JobRow>(
+          `SELECT * FROM ${this.tableName} WHERE status = ?`,
+          [status]
+        );
+        jobs = rows.map((row) => this.mapRowToJob(row));
+      } else {
+        const rows = await tx.getAllAsync<{ data: string }>(
+          `SELECT * FROM ${this.deadTableName}`
+        );
+        jobs = rows.map((row) => JSON.parse(row.data));
+      }
+
+      for (const job of findPrunableJobs(jobs, options)) {
+        await tx.runAsync(`DELETE FROM ${table} WHERE id = ?`, [job.id]);
+        await tx.runAsync(
+          `DELETE FROM ${this.dependenciesTableName} WHERE jobId = ?`,
+          [job.id]
+        );
+      }
+    });
+  }
+
+  async saveRecurringJob<T = unknown>(
+    definition: RecurringJob<T>
+  ): Promise<void> {
+    await this.initPromise;
+    await this.db.runAsync(
+      `INSERT OR REPLACE INTO ${this.recurringTableName} (id, data) VALUES (?, ?)`,
+      [definition.id, JSON.stringify(definition)]
+    );
+  }
+
+  async getRecurringJobs(): Promise<RecurringJob<unknown>[]> {
+    await this.initPromise;
+    const result = await this.db.getAllAsync<{ id: string; data: string }>(
+      `SELECT * FROM ${this.recurringTableName}`
+    );
+    return result.map((row) => JSON.parse(row.data));
+  }
+
+  async removeRecurringJob(id: string): Promise<void> {
+    await this.initPromise;
+    await this.db.runAsync(
+      `DELETE FROM ${this.recurringTableName} WHERE id = ?`,
+      [id]
+    );
+  }
+
+  async claimThrottleWindow(
+    key: string,
+    jobId: string,
+    until: string
+  ): Promise<string | void> {
+    await this.initPromise;
+    let openJobId: string | undefined;
+
+    await this.db.withExclusiveTransactionAsync(async (tx) => {
+      // Closed windows are dropped, so keys that are never reused do not pile up
+      await tx.runAsync(
+        `DELETE FROM ${this.throttleTableName} WHERE closesAt <= ?`,
+        [new Date().toISOString()]
+      );
+      const [current] = await tx.getAllAsync<{
+        jobId: string;
+        closesAt: string;
+      }>(`SELECT * FROM ${this.throttleTableName} WHERE id = ?`, [key]);
+
+      if (current) {
+        openJobId = current.jobId;
+        return;
+      }
+
+      await tx.runAsync(
+        `INSERT OR REPLACE INTO ${this.throttleTableName} (id, jobId, closesAt) VALUES (?, ?, ?)`,
+        [key, jobId, until]
+      );
+    });
+
+    return openJobId;
+  }
+
   async deleteAll(): Promise<void> {
     await this.initPromise;
     await this.db.runAsync(`DELETE FROM ${this.tableName}`);
+    await this.db.runAsync(`DELETE FROM ${this.dependenciesTableName}`);
+    await this.db.runAsync(`DELETE FROM ${this.deadTableName}`);
+    await this.db.runAsync(`DELETE FROM ${this.throttleTableName}`);
   }
 
   /**
-   * Resets all active jobs to inactive state.
+   * Resets all active jobs to inactive state: `delayed` while their `runAt`
+   * is in the future, otherwise `waiting`.
    */
   async recover(): Promise<void> {
     await this.initPromise;
     await this.db.runAsync(
-      `UPDATE ${this.tableName} SET active = 0 WHERE active = 1`
+      `UPDATE ${this.tableName} SET active = 0, status = CASE WHEN runAt > strftime('%Y-%m-%dT%H:%M:%fZ', 'now') THEN 'delayed' ELSE 'waiting' END WHERE status = 'active'`
+    );
+  }
+
+  /**
+   * Inserts a job and its dependency edges within a transaction.
+   * The primary key and the unique index reject duplicates atomically.
+   * The existing job is looked up in the same transaction so it cannot finish in between.
+   * @returns The id of the existing job when the job is a duplicate.
+   */
+  private async insertJob<T>(
+    tx: SQLite.SQLiteDatabase,
+    job: Job<T>,
+    options: AddJobOptions
+  ): Promise<string | void> {
+    const result = await tx.runAsync(
+      `INSERT OR IGNORE INTO ${this.tableName} ${INSERT_COLUMNS}`,
+      this.toInsertParams(job)
     );
+
+    if (result.changes === 0) {
+      if (options.replace && job.uniqueKey) {
+        await tx.runAsync(
+          `UPDATE ${this.tableName} SET payload = ?, runAt = ?, status = ? WHERE uniqueKey = ? AND ${IDLE_STATUSES}`,
+          [
+            JSON.stringify(job.payload),
+            job.runAt || null,
+            getIdleStatus(job),
+            job.uniqueKey,
+          ]
+        );
+      }
+      const [existing] = await tx.getAllAsync<{ id: string }>(
+        `SELECT id FROM ${this.tableName} WHERE id = ? OR uniqueKey = ?`,
+        [job.id, job.uniqueKey || null]
+      );
+      return existing?.id;
+    }
+
+    for (const parentId of job.dependsOn || []) {
+      await tx.runAsync(
+        `INSERT OR IGNORE INTO ${this.dependenciesTableName} (jobId, parentId) VALUES (?, ?)`,
+        [job.id, parentId]
+      );
+    }
+  }
+
+  /**
+   * Binds a job to the columns of `INSERT_COLUMNS`.
+   */
+  private toInsertParams<T>(job: Job<T>): SQLite.SQLiteBindValue[] {
+    return [
+      job.id,
+      job.name,
+      JSON.stringify(job.payload),
+      JSON.stringify(
+        pick(job, [
+          'ttl',
+          'metaData',
+          'attempts',
+          'workerName',
+          'onlineOnly',
+          'maxAttempts',
+          'timeInterval',
+          'backoff',
+          'progress',
+          'attemptHistory',
+          'dependsOn',
+          'onParentFailure',
+          'uniqueScope',
+          'removeOnComplete',
+          'removeOnFail',
+          'finishedAt',
+          'result',
+          'tags',
+        ])
+      ),
+      job.priority,
+      job.active ? 1 : 0,
+      job.timeout,
+      job.created,
+      job.failed || null,
+      job.runAt || null,
+      job.uniqueKey || null,
+      job.status,
+      job.queue ?? DEFAULT_QUEUE,
+    ];
   }
 
   private mapRowToJob(row: JobRow): Job<unknown> {
     const data = JSON.parse(row.data || '{}') as JobOptions & {
       maxAttempts?: number;
       workerName?: string;
+      progress?: JobProgress;
     };
 
-    return {
+    const job = {
       ...omit(row, ['data']),
       ...data,
       active: !!row.active,
@@ -180,5 +856,7 @@ export class SQLiteAdapter implements Adapter {
       timeInterval: data.timeInterval || 0,
       ttl: data.ttl || 1000 * 60 * 60 * 24 * 7, // Default 7 days
     } as Job<unknown>;
+    job.status = resolveJobStatus(job);
+    return job;
   }
 }
@@ -0,0 +1,65 @@
+import type {
+  BatchResult,
+  BatchWorkerContext,
+  BatchWorkerFunction,
+  BatchWorkerOptions,
+  Job,
+} from './types';
+
+/** Batch size used when `maxBatchSize` is not set. */
+const DEFAULT_MAX_BATCH_SIZE = 10;
+
+/**
+ * Worker that handles several jobs with the same name in a single call.
+ * @template T - The type of the job payload.
+ * @template R - The type of the job result.
+ */
+export class BatchWorker<T = unknown, R = unknown> {
+  /** Name of the worker, essentially the job name it handles. */
+  name: string;
+  /** The function to execute for each batch. */
+  workerFn: BatchWorkerFunction<T, R>;
+  /** Options for the worker. */
+  options: BatchWorkerOptions<T>;
+
+  /**
+   * Creates a new BatchWorker instance.
+   * @param name - The name of the jobs this worker handles.
+   * @param workerFn - The async function to execute for each batch.
+   * @param options - Batch size, wait time, concurrency and callbacks.
+   */
+  constructor(
+    name: string,
+    workerFn: BatchWorkerFunction<T, R>,
+    options: BatchWorkerOptions<T> = {}
+  ) {
+    if (options.maxBatchSize !== undefined && !(options.maxBatchSize >= 1)) {
+      throw new Error(
+        `Batch worker ${name} requires maxBatchSize of at least 1`
+      );
+    }
+    this.name = name;
+    this.workerFn = workerFn;
+    this.options = options;
+  }
+
+  /**
+   * Maximum number of jobs passed to one call.
+   */
+  get maxBatchSize(): number {
+    return Math.floor(this.options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE);
+  }
+
+  /**
+   * Executes a batch of jobs using the worker function.
+   * @param jobs - The jobs to execute, all with this worker's name.
+   * @param context - Execution context forwarded to the worker function.
+   * @returns The per-job results resolved by the worker function.
+   */
+  execute(
+    jobs: Job<T>[],
+    context: BatchWorkerContext = { signal: new AbortController().signal }
+  ): Promise<BatchResult<R> | void> {
+    return this.workerFn(jobs, context);
+  }
+}
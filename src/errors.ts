@@ -0,0 +1,174 @@
+import type { Job, JobStatus } from './types';
+
+/**
+ * Error raised when a job runs longer than its configured `timeout`.
+ * The worker's `AbortSignal` is aborted at the same moment.
+ */
+export class JobTimeoutError extends Error {
+  /** The id of the job that timed out. */
+  jobId: string;
+  /** The timeout (in milliseconds) that was exceeded. */
+  timeout: number;
+
+  constructor(job: Job<unknown>) {
+    super(`Job ${job.id} timed out after ${job.timeout}ms`);
+    this.name = 'JobTimeoutError';
+    this.jobId = job.id;
+    this.timeout = job.timeout;
+  }
+}
+
+/**
+ * Error a job fails with when its `ttl` passes before it could run.
+ * The job is removed without running and without entering the DLQ.
+ */
+export class JobExpiredError extends Error {
+  /** The id of the expired job. */
+  jobId: string;
+  /** The time to live (in milliseconds) that passed. */
+  ttl: number;
+
+  constructor(job: Job<unknown>) {
+    super(`Job ${job.id} expired after ${job.ttl}ms`);
+    this.name = 'JobExpiredError';
+    this.jobId = job.id;
+    this.ttl = job.ttl;
+  }
+}
+
+/**
+ * Error raised when an operation references a job that is not in the queue.
+ */
+export class JobNotFoundError extends Error {
+  /** The id that could not be found. */
+  jobId: string;
+
+  constructor(jobId: string) {
+    super(`Job ${jobId} not found`);
+    this.name = 'JobNotFoundError';
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Error raised when a job is cancelled through `Queue.cancelJob`.
+ * A running worker's `AbortSignal` is aborted at the same moment.
+ */
+export class JobCancelledError extends Error {
+  /** The id of the cancelled job. */
+  jobId: string;
+
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Error used to fail a dependent job whose parent failed for good or was cancelled.
+ */
+export class JobDependencyError extends Error {
+  /** The id of the dependent job. */
+  jobId: string;
+  /** The id of the parent that did not succeed. */
+  parentId: string;
+
+  constructor(jobId: string, parentId: string) {
+    super(
+      `Job ${jobId} cannot run because parent job ${parentId} did not succeed`
+    );
+    this.name = 'JobDependencyError';
+    this.jobId = jobId;
+    this.parentId = parentId;
+  }
+}
+
+/**
+ * Error a worker throws when retrying cannot help (e.g. a validation error).
+ * The job fails for good right away, without using its remaining attempts.
+ */
+export class UnrecoverableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnrecoverableError';
+  }
+}
+
+/**
+ * Error a worker throws when the upstream service rate-limits it (e.g. HTTP 429).
+ * The job is retried after `delay` without consuming an attempt, and the
+ * worker's rate limiter, if any, pauses for the same time.
+ */
+export class RateLimitError extends Error {
+  /** Back-off in milliseconds before the job or its limiter may run again. */
+  delay: number;
+
+  constructor(delay: number, message: string = 'Rate limit exceeded') {
+    super(message);
+    this.name = 'RateLimitError';
+    this.delay = delay;
+  }
+}
+
+/**
+ * Error raised when a job is moved to a status its current status cannot lead to,
+ * e.g. a completed job being claimed again.
+ */
+export class JobStatusError extends Error {
+  /** The id of the job. */
+  jobId: string;
+  /** The status the job was in. */
+  from: JobStatus;
+  /** The status it was moved to. */
+  to: JobStatus;
+
+  constructor(jobId: string, from: JobStatus, to: JobStatus) {
+    super(`Job ${jobId} cannot move from ${from} to ${to}`);
+    this.name = 'JobStatusError';
+    this.jobId = jobId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Error used to interrupt a running job when the queue is stopped without draining.
+ * The job is returned to the queue without consuming an attempt.
+ */
+export class JobInterruptedError extends Error {
+  /** The id of the interrupted job. */
+  jobId: string;
+
+  constructor(jobId: string) {
+    super(`Job ${jobId} was interrupted by queue shutdown`);
+    this.name = 'JobInterruptedError';
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Error raised when the SQLite adapter cannot bring its tables up to date at init:
+ * a migration step failed (its changes are rolled back), or the tables were
+ * migrated by a newer version of the library.
+ * Every call to the adapter rejects with it.
+ */
+export class SchemaMigrationError extends Error {
+  /** The job table being migrated. */
+  tableName: string;
+  /** The version of the failed step, or the unsupported version found. */
+  version: number;
+
+  constructor(
+    tableName: string,
+    version: number,
+    message: string,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = 'SchemaMigrationError';
+    this.tableName = tableName;
+    this.version = version;
+    this.cause = cause;
+  }
+}
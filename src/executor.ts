@@ -1,19 +1,60 @@
 import EventEmitter from 'eventemitter3';
-import type { Adapter, Job, JobExecutorOptions } from './types';
+import type {
+  Adapter,
+  Job,
+  JobExecutorOptions,
+  PruneJobsOptions,
+  RetentionPolicy,
+  WorkerContext,
+} from './types';
+import type { JobRegistry } from './registry';
 import { Worker } from './worker';
-import { prepareJobFailure } from './utils/helpers';
+import type { BatchWorker } from './batch-worker';
+import {
+  DEFAULT_QUEUE,
+  calculateBackoffDelay,
+  getIdleStatus,
+  prepareJobFailure,
+  recordAttempt,
+  releaseUniqueKey,
+  resolveRetention,
+  transitionJob,
+} from './utils/helpers';
+import {
+  JobCancelledError,
+  JobDependencyError,
+  JobExpiredError,
+  JobInterruptedError,
+  JobTimeoutError,
+  RateLimitError,
+  UnrecoverableError,
+} from './errors';
 
 /**
- * Handles the execution of a single job.
- * Manages lifecycle events (start, success, failure) and persistence updates.
+ * Handles the execution of a single job or a batch of jobs.
+ * Manages lifecycle events (start, success, failure), timeouts and persistence updates.
  */
 export class JobExecutor {
   private adapter: Adapter;
   private emitter: EventEmitter;
+  private registry?: JobRegistry;
+  private maxAttemptHistory: number;
+  private removeOnComplete: RetentionPolicy;
+  private removeOnFail: RetentionPolicy;
+  /** Pruning of finished jobs, serialized and run in the background. */
+  private pruning: Promise<void> = Promise.resolve();
+  /** Abort handles for the attempts currently running, keyed by job id. */
+  private running: Map<string, (error: Error) => void> = new Map();
+  /** Jobs cancelled after being claimed but before their execution started. */
+  private cancelledIds: Set<string> = new Set();
 
   constructor(options: JobExecutorOptions) {
     this.adapter = options.adapter;
     this.emitter = options.emitter;
+    this.registry = options.registry;
+    this.maxAttemptHistory = options.maxAttemptHistory ?? 10;
+    this.removeOnComplete = options.removeOnComplete ?? true;
+    this.removeOnFail = options.removeOnFail ?? false;
   }
 
   /**
@@ -21,42 +62,410 @@ export class JobExecutor {
    * @param job - The job to execute.
    * @param worker - The worker that handles this job type.
    */
-  async execute<T>(job: Job<T>, worker: Worker<T>): Promise<void> {
-    job.active = true;
+  async execute<T, R>(job: Job<T>, worker: Worker<T, R>): Promise<void> {
+    // Cancelled between being claimed and starting
+    if (this.cancelledIds.delete(job.id)) return;
+
+    transitionJob(job, 'active');
     job.failed = null;
+    // The attempt starts now, so a key scoped to 'waiting' stops blocking duplicates
+    releaseUniqueKey(job);
     await this.adapter.updateJob(job);
 
     this.emitter.emit('start', job);
+    const startedAt = Date.now();
 
     try {
-      await worker.execute(job);
-      await this.adapter.removeJob(job);
-      this.emitter.emit('success', job);
+      const result = await this.runWorker(job, worker);
+      await this.completeJob(job, result, startedAt);
     } catch (error) {
-      // Use helper to prepare job state after failure
-      const updatedJob = prepareJobFailure(job, error as Error);
+      await this.failJob(job, worker, error as Error, startedAt);
+    }
+  }
 
-      // Sync back properties to the object we have (or update local reference)
-      Object.assign(job, updatedJob);
+  /**
+   * Executes several jobs with the same name in one call of a batch worker.
+   * Each job then succeeds, retries or fails on its own according to its result.
+   * @param jobs - The jobs to execute.
+   * @param worker - The batch worker that handles this job type.
+   */
+  async executeBatch<T, R>(
+    jobs: Job<T>[],
+    worker: BatchWorker<T, R>
+  ): Promise<void> {
+    const started: Job<T>[] = [];
+    for (const job of jobs) {
+      // Cancelled between being claimed and starting
+      if (this.cancelledIds.delete(job.id)) continue;
 
-      // Check if max attempts reached
-      if (job.attempts >= job.maxAttempts) {
-        this.emitter.emit('failed', job, error as Error);
+      transitionJob(job, 'active');
+      job.failed = null;
+      releaseUniqueKey(job);
+      await this.adapter.updateJob(job);
+      started.push(job);
+    }
+    if (started.length === 0) return;
 
-        // Move to DLQ if adapter supports it
-        if (this.adapter.moveToDLQ) {
-          await this.adapter.moveToDLQ(job);
-        }
+    for (const job of started) {
+      this.emitter.emit('start', job);
+    }
 
-        if (worker.options.onFailed) {
-          worker.options.onFailed(job, error as Error);
-        }
+    const startedAt = Date.now();
+    const outcomes = await this.runBatchWorker(started, worker);
+    for (const [i, job] of started.entries()) {
+      const outcome = outcomes[i];
+      if (outcome instanceof Error) {
+        await this.failJob(job, worker, outcome, startedAt);
       } else {
-        // Just a retry failure, not final
-        this.emitter.emit('failure', job, error as Error);
+        await this.completeJob(job, outcome, startedAt);
+      }
+    }
+  }
+
+  /**
+   * Applies the `onParentFailure` policy of every job that depends on a parent
+   * that failed for good or was cancelled. Jobs that fail or are removed
+   * pass the failure on to their own dependents.
+   * @param parent - The parent job.
+   */
+  async failDependents<T>(parent: Job<T>): Promise<void> {
+    const dependents = (await this.adapter.getJobs()).filter(
+      (job) => job.dependsOn?.includes(parent.id) && job.status !== 'completed'
+    );
+
+    for (const job of dependents) {
+      const policy = job.onParentFailure ?? 'fail';
+      if (policy === 'wait') continue;
+
+      if (policy === 'remove') {
+        transitionJob(job, 'cancelled');
+        await this.adapter.removeJob(job);
+        this.emitter.emit('cancelled', job);
+      } else {
+        const error = new JobDependencyError(job.id, parent.id);
+        Object.assign(job, prepareJobFailure(job, error));
+        job.attempts = job.maxAttempts;
+        transitionJob(job, 'failed');
+        await this.storeDeadJob(job);
+        this.emitter.emit('failed', job, error);
+      }
+
+      await this.failDependents(job);
+    }
+  }
+
+  /**
+   * Fails a claimed job whose `ttl` passed before it could run: removes it,
+   * emits `failed` with a JobExpiredError and applies `onParentFailure` to its dependents.
+   * @param job - The expired job.
+   */
+  async expireJob<T>(job: Job<T>): Promise<void> {
+    const error = new JobExpiredError(job as Job<unknown>);
+    job.failed = new Date().toISOString();
+    transitionJob(job, 'failed');
+    await this.adapter.removeJob(job);
+    this.emitter.emit('failed', job, error);
+    await this.failDependents(job);
+  }
+
+  /**
+   * Cancels a job that is currently running.
+   * The worker's signal is aborted and the attempt rejects with a JobCancelledError.
+   * @param id - The UUID of the job.
+   * @returns True if the job was running and has been cancelled.
+   */
+  cancel(id: string): boolean {
+    const abort = this.running.get(id);
+    if (!abort) return false;
+    abort(new JobCancelledError(id));
+    return true;
+  }
+
+  /**
+   * Aborts every running job and returns them to the queue without consuming an attempt.
+   */
+  interruptAll() {
+    for (const [id, abort] of this.running) {
+      abort(new JobInterruptedError(id));
+    }
+  }
+
+  /**
+   * Marks a claimed job that has not started yet so it is skipped when executed.
+   * @param id - The UUID of the job.
+   */
+  skip(id: string) {
+    this.cancelledIds.add(id);
+  }
+
+  /**
+   * Removes or retains a job that succeeded, according to its `removeOnComplete`
+   * policy, and emits its result.
+   */
+  private async completeJob<T>(
+    job: Job<T>,
+    result: unknown,
+    startedAt: number
+  ) {
+    transitionJob(job, 'completed');
+    job.finishedAt = new Date().toISOString();
+    recordAttempt(job, null, startedAt, this.maxAttemptHistory);
+
+    const retention = resolveRetention(
+      job.removeOnComplete ?? this.removeOnComplete
+    );
+    if (retention) {
+      job.result = result;
+      await this.adapter.updateJob(job);
+      this.prune('completed', {
+        ...retention,
+        queue: job.queue ?? DEFAULT_QUEUE,
+      });
+    } else {
+      await this.adapter.removeJob(job);
+    }
+    this.emitter.emit('success', job, result);
+  }
+
+  /**
+   * Handles a failed attempt: cancelled, interrupted and rate limited jobs are settled
+   * without consuming a retry, other errors retry the job or fail it for good.
+   * Interrupted and failed attempts are recorded in the job's attempt history.
+   */
+  private async failJob<T, R>(
+    job: Job<T>,
+    worker: Worker<T, R> | BatchWorker<T, R>,
+    error: Error,
+    startedAt: number
+  ) {
+    // Cancelled jobs are dropped without consuming a retry
+    if (error instanceof JobCancelledError) {
+      transitionJob(job, 'cancelled');
+      await this.adapter.removeJob(job);
+      this.emitter.emit('cancelled', job);
+      await this.failDependents(job);
+      return;
+    }
+
+    // Interrupted by shutdown: put the job back without consuming an attempt
+    if (error instanceof JobInterruptedError) {
+      recordAttempt(job, error, startedAt, this.maxAttemptHistory);
+      transitionJob(job, getIdleStatus(job));
+      await this.adapter.updateJob(job);
+      return;
+    }
+
+    // Rate limited upstream: back off and retry without consuming an attempt
+    if (error instanceof RateLimitError) {
+      const limiter = worker.options.limiter;
+      if (limiter) {
+        this.registry?.getLimiter(limiter)?.pause(error.delay);
       }
+      job.runAt = new Date(Date.now() + error.delay).toISOString();
+      transitionJob(job, 'delayed');
+      await this.adapter.updateJob(job);
+      return;
+    }
 
+    // Use helper to prepare job state after failure
+    const updatedJob = prepareJobFailure(job, error);
+
+    // Sync back properties to the object we have (or update local reference)
+    Object.assign(job, updatedJob);
+    recordAttempt(job, error, startedAt, this.maxAttemptHistory);
+
+    // Errors that retrying cannot fix use up the remaining attempts
+    const decision =
+      error instanceof UnrecoverableError
+        ? false
+        : worker.options.shouldRetry?.(error, job) ?? true;
+    if (decision === false) {
+      job.attempts = job.maxAttempts;
+    }
+
+    // Check if max attempts reached
+    const isFinalFailure = job.attempts >= job.maxAttempts;
+    if (isFinalFailure) {
+      transitionJob(job, 'failed');
+      // Stored first, so listeners find the job in the DLQ
+      await this.storeDeadJob(job);
+      this.emitter.emit('failed', job, error);
+
+      if (worker.options.onFailed) {
+        worker.options.onFailed(job, error);
+      }
+    } else {
+      // Just a retry failure, not final. Store the next attempt time once,
+      // so scheduling does not depend on when the job is looked at again.
+      const delay =
+        typeof decision === 'object'
+          ? decision.delay
+          : calculateBackoffDelay(job, error, worker.options.backoffStrategies);
+      job.runAt = new Date(Date.now() + delay).toISOString();
+      transitionJob(job, getIdleStatus(job));
+      this.emitter.emit('failure', job, error);
       await this.adapter.updateJob(job);
     }
+
+    if (isFinalFailure) {
+      await this.failDependents(job);
+    }
+  }
+
+  /**
+   * Stores a job that failed for good: in the dead letter queue if the adapter
+   * has one, otherwise in place, where it is no longer claimed.
+   * Jobs are removed instead, or pruned later, according to their `removeOnFail` policy.
+   */
+  private async storeDeadJob<T>(job: Job<T>) {
+    job.finishedAt = new Date().toISOString();
+
+    const retention = resolveRetention(job.removeOnFail ?? this.removeOnFail);
+    if (!retention) {
+      await this.adapter.removeJob(job);
+    } else if (this.adapter.moveToDLQ) {
+      await this.adapter.moveToDLQ(job);
+    } else {
+      await this.adapter.updateJob(job);
+    }
+
+    if (retention) {
+      this.prune('failed', { ...retention, queue: job.queue ?? DEFAULT_QUEUE });
+    }
+  }
+
+  /**
+   * Deletes finished jobs of a queue beyond a retention limit without holding up the caller.
+   * Runs are serialized; a failed run is logged and does not stop later ones.
+   */
+  private prune(status: 'completed' | 'failed', options: PruneJobsOptions) {
+    const { pruneJobs } = this.adapter;
+    if (!pruneJobs) return;
+    if (options.count === undefined && options.age === undefined) return;
+
+    this.pruning = this.pruning
+      .then(() => pruneJobs.call(this.adapter, status, options))
+      .catch((error) => {
+        console.warn(
+          '[react-native-task-queue] Failed to prune finished jobs.',
+          error
+        );
+      });
+  }
+
+  /**
+   * Runs the worker, racing it against the job's timeout and cancellation.
+   * Either one aborts the worker's signal and rejects the attempt with the matching error.
+   */
+  private runWorker<T, R>(job: Job<T>, worker: Worker<T, R>): Promise<R> {
+    const controller = new AbortController();
+    let settled = false;
+
+    const context: WorkerContext = {
+      signal: controller.signal,
+      reportProgress: async (progress) => {
+        // Ignore reports from a worker that outlived its attempt
+        if (settled) return;
+        job.progress = progress;
+        await this.adapter.updateJob(job);
+        this.emitter.emit('progress', job, progress);
+      },
+    };
+
+    const execution = worker.execute(job, context);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const interruption = new Promise<never>((_, reject) => {
+      const abort = (error: Error) => {
+        controller.abort();
+        reject(error);
+      };
+      this.running.set(job.id, abort);
+
+      if (job.timeout > 0) {
+        timer = setTimeout(
+          () => abort(new JobTimeoutError(job as Job<unknown>)),
+          job.timeout
+        );
+      }
+    });
+
+    // A worker that ignores the signal may still settle after the timeout.
+    // Its outcome no longer matters, but the rejection must not go unhandled.
+    execution.catch(() => {});
+
+    return Promise.race([execution, interruption]).finally(() => {
+      settled = true;
+      clearTimeout(timer);
+      this.running.delete(job.id);
+    });
+  }
+
+  /**
+   * Runs a batch worker, racing it against the longest timeout among its jobs.
+   * Cancelling a job drops it from the batch; the signal is only aborted once
+   * every job is cancelled, on timeout or on shutdown.
+   * @returns The outcome of each job, in order: its result or the error that failed it.
+   */
+  private runBatchWorker<T, R>(
+    jobs: Job<T>[],
+    worker: BatchWorker<T, R>
+  ): Promise<Array<R | Error>> {
+    const controller = new AbortController();
+    const cancelled = new Set<string>();
+
+    const execution = worker.execute(jobs, { signal: controller.signal });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const interruption = new Promise<never>((_, reject) => {
+      const abort = (error: Error) => {
+        controller.abort();
+        reject(error);
+      };
+      for (const job of jobs) {
+        this.running.set(job.id, (error) => {
+          if (error instanceof JobCancelledError) {
+            cancelled.add(job.id);
+            if (cancelled.size < jobs.length) return;
+          }
+          abort(error);
+        });
+      }
+
+      const longest = jobs.reduce((a, b) => (b.timeout > a.timeout ? b : a));
+      if (longest.timeout > 0) {
+        timer = setTimeout(
+          () => abort(new JobTimeoutError(longest as Job<unknown>)),
+          longest.timeout
+        );
+      }
+    });
+
+    // See runWorker: a late rejection must not go unhandled
+    execution.catch(() => {});
+
+    return Promise.race([execution, interruption])
+      .then(
+        (results) =>
+          jobs.map((job, i) =>
+            cancelled.has(job.id)
+              ? new JobCancelledError(job.id)
+              : ((results || [])[i] as R | Error)
+          ),
+        (error: Error) =>
+          jobs.map((job) => {
+            if (cancelled.has(job.id)) return new JobCancelledError(job.id);
+            if (error instanceof JobTimeoutError) {
+              return new JobTimeoutError(job as Job<unknown>);
+            }
+            return error;
+          })
+      )
+      .finally(() => {
+        clearTimeout(timer);
+        for (const job of jobs) {
+          this.running.delete(job.id);
+        }
+      });
   }
 }
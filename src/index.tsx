@@ -1,7 +1,107 @@
 import { Queue } from './queue';
+import { QueueManager } from './queue-manager';
 import { MemoryAdapter } from './adapters/memory';
-import type { Adapter, Job, QueueOptions, WorkerOptions } from './types';
+import type { RateLimiter } from './limiter';
+import {
+  JobCancelledError,
+  JobDependencyError,
+  JobExpiredError,
+  JobNotFoundError,
+  JobStatusError,
+  JobTimeoutError,
+  RateLimitError,
+  SchemaMigrationError,
+  UnrecoverableError,
+} from './errors';
+import { isInQueue, isJobReady } from './utils/helpers';
+import type {
+  Adapter,
+  AddJobOptions,
+  BatchResult,
+  BatchWorkerContext,
+  BatchWorkerFunction,
+  BatchWorkerOptions,
+  CatchUpPolicy,
+  ConcurrentJobsOptions,
+  Job,
+  JobAttempt,
+  JobAttemptError,
+  JobAttemptOutcome,
+  JobCounts,
+  JobOrderBy,
+  JobProgress,
+  JobQuery,
+  JobStatus,
+  JobStatusCounts,
+  JobUpdate,
+  ParentFailurePolicy,
+  PruneJobsOptions,
+  PurgeDeadJobsOptions,
+  QueueOptions,
+  RateKeyOptions,
+  RateLimiterOptions,
+  RecurringJob,
+  RecurringOptions,
+  RetentionOptions,
+  RetentionPolicy,
+  RetryDecision,
+  StopOptions,
+  WorkerContext,
+  WorkerFunction,
+  WorkerOptions,
+} from './types';
 
-export { Queue, MemoryAdapter };
+export {
+  Queue,
+  QueueManager,
+  MemoryAdapter,
+  JobCancelledError,
+  JobDependencyError,
+  JobExpiredError,
+  JobNotFoundError,
+  JobStatusError,
+  JobTimeoutError,
+  RateLimitError,
+  SchemaMigrationError,
+  UnrecoverableError,
+  isInQueue,
+  isJobReady,
+};
 
-export type { Adapter, Job, QueueOptions, WorkerOptions };
+export type {
+  Adapter,
+  AddJobOptions,
+  BatchResult,
+  BatchWorkerContext,
+  BatchWorkerFunction,
+  BatchWorkerOptions,
+  CatchUpPolicy,
+  ConcurrentJobsOptions,
+  Job,
+  JobAttempt,
+  JobAttemptError,
+  JobAttemptOutcome,
+  JobCounts,
+  JobOrderBy,
+  JobProgress,
+  JobQuery,
+  JobStatus,
+  JobStatusCounts,
+  JobUpdate,
+  ParentFailurePolicy,
+  PruneJobsOptions,
+  PurgeDeadJobsOptions,
+  QueueOptions,
+  RateKeyOptions,
+  RateLimiter,
+  RateLimiterOptions,
+  RecurringJob,
+  RecurringOptions,
+  RetentionOptions,
+  RetentionPolicy,
+  RetryDecision,
+  StopOptions,
+  WorkerContext,
+  WorkerFunction,
+  WorkerOptions,
+};
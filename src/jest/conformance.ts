@@ -0,0 +1,811 @@
+import type {
+  Adapter,
+  Job,
+  JobOptions,
+  JobQuery,
+  RecurringJob,
+} from '../types';
+import { createJob, transitionJob } from '../utils/helpers';
+
+/**
+ * Optional parts of the adapter contract covered by the suite.
+ * - `recover`: crash recovery through `recover`.
+ * - `deadLetterQueue`: `moveToDLQ`, `getDeadJobs`, `restoreDeadJob` and `removeDeadJob`.
+ * - `addJobs`: bulk adds through `addJobs`.
+ * - `uniqueJobs`: deduplication by job id and `uniqueKey` in `addJob`.
+ * - `conditionalWrites`: `updateJobIfStatus` and `removeJobIfStatus`.
+ * - `queries`: `getNextRunAt`, `queryJobs` and `getJobCounts`.
+ * - `pruning`: retention through `pruneJobs`.
+ * - `recurringJobs`: `saveRecurringJob`, `getRecurringJobs` and `removeRecurringJob`.
+ * - `throttling`: `claimThrottleWindow`.
+ */
+export type ConformanceFeature =
+  | 'recover'
+  | 'deadLetterQueue'
+  | 'addJobs'
+  | 'uniqueJobs'
+  | 'conditionalWrites'
+  | 'queries'
+  | 'pruning'
+  | 'recurringJobs'
+  | 'throttling';
+
+/**
+ * Options for runAdapterConformanceTests.
+ */
+export interface ConformanceOptions {
+  /** Features the adapter does not implement. Their tests are reported as skipped. */
+  skip?: ConformanceFeature[];
+}
+
+/** Adapter methods each optional feature needs. */
+const FEATURE_METHODS: Record<ConformanceFeature, Array<keyof Adapter>> = {
+  recover: ['recover'],
+  deadLetterQueue: [
+    'moveToDLQ',
+    'getDeadJobs',
+    'restoreDeadJob',
+    'removeDeadJob',
+  ],
+  addJobs: ['addJobs'],
+  uniqueJobs: [],
+  conditionalWrites: ['updateJobIfStatus', 'removeJobIfStatus'],
+  queries: ['getNextRunAt', 'queryJobs', 'getJobCounts'],
+  pruning: ['pruneJobs'],
+  recurringJobs: ['saveRecurringJob', 'getRecurringJobs', 'removeRecurringJob'],
+  throttling: ['claimThrottleWindow'],
+};
+
+/**
+ * Creates a job whose `created` time is `offset` ms after a fixed point,
+ * so FIFO order does not depend on how fast the jobs are created.
+ */
+function createJobAt(offset: number, priority: number = 0): Job<unknown> {
+  const job = createJob('conformance', { offset }, { priority });
+  job.created = new Date(Date.UTC(2024, 0, 1) + offset).toISOString();
+  return job;
+}
+
+/** Creates a recurring definition that runs every minute. */
+function createDefinition(id: string): RecurringJob {
+  return {
+    id,
+    name: id,
+    payload: { days: 7 },
+    every: 60000,
+    startAt: new Date().toISOString(),
+    catchUp: 'once',
+    jobOptions: { priority: 1 },
+    count: 0,
+    nextRunAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Registers a Jest suite checking the behaviour the queue relies on from a
+ * storage adapter: claiming, ordering, deduplication, crash recovery,
+ * persistence, the DLQ, queries, retention, recurring jobs and throttling.
+ * Use it to validate a custom adapter:
+ *
+ * ```ts
+ * runAdapterConformanceTests(() => new MMKVAdapter(storage));
+ * ```
+ *
+ * Tests of optional features fail when the adapter lacks their methods,
+ * unless the features are listed in `options.skip`.
+ *
+ * @param createAdapter - Returns the adapter under test. Called before each test;
+ * the storage is emptied with `deleteAll` before the test runs.
+ * @param options - Features to skip.
+ */
+export function runAdapterConformanceTests(
+  createAdapter: () => Adapter | Promise<Adapter>,
+  options: ConformanceOptions = {}
+) {
+  const skippedFeatures = new Set(options.skip);
+
+  describe('adapter conformance', () => {
+    let adapter: Adapter;
+
+    /**
+     * Registers a test that needs optional features: skipped when they are
+     * listed in `skip`, failing up front when their methods are missing.
+     */
+    const itWith = (
+      features: ConformanceFeature[],
+      name: string,
+      test: () => Promise<void>
+    ) => {
+      if (features.some((feature) => skippedFeatures.has(feature))) {
+        // eslint-disable-next-line jest/no-disabled-tests -- reported as skipped on purpose
+        it.skip(name, test);
+        return;
+      }
+      it(name, async () => {
+        const missing = features
+          .flatMap((feature) => FEATURE_METHODS[feature])
+          .filter((method) => !adapter[method]);
+        if (missing.length > 0) {
+          const methods = missing.join(', ');
+          throw new Error(
+            `The adapter does not implement ${methods}; list the feature in \`skip\``
+          );
+        }
+        await test();
+      });
+    };
+
+    beforeEach(async () => {
+      adapter = await createAdapter();
+      await adapter.deleteAll();
+    });
+
+    afterEach(async () => {
+      await adapter.deleteAll();
+    });
+
+    it('should claim a job only once', async () => {
+      const job = createJobAt(0);
+      await adapter.addJob(job);
+
+      const claimed = await adapter.getConcurrentJobs(10);
+      expect(claimed.map((j) => j.id)).toEqual([job.id]);
+      expect(claimed[0]?.status).toBe('active');
+      expect(claimed[0]?.active).toBe(true);
+
+      expect(await adapter.getConcurrentJobs(10)).toEqual([]);
+      const stored = await adapter.getJob(job.id);
+      expect(stored?.status).toBe('active');
+      expect(stored?.active).toBe(true);
+    });
+
+    it('should never hand out a job to two concurrent claims', async () => {
+      const jobs = Array.from({ length: 12 }, (_, i) => createJobAt(i));
+      for (const job of jobs) {
+        await adapter.addJob(job);
+      }
+
+      const batches = await Promise.all(
+        Array.from({ length: 6 }, () => adapter.getConcurrentJobs(3))
+      );
+      const claimedIds = batches.flat().map((j) => j.id);
+
+      expect(new Set(claimedIds).size).toBe(claimedIds.length);
+      expect(claimedIds.sort()).toEqual(jobs.map((j) => j.id).sort());
+    });
+
+    it('should claim by priority, then oldest first', async () => {
+      const old = createJobAt(0);
+      const recent = createJobAt(2);
+      const urgent = createJobAt(3, 10);
+      const middle = createJobAt(1);
+      for (const job of [recent, middle, urgent, old]) {
+        await adapter.addJob(job);
+      }
+
+      const claimed = await adapter.getConcurrentJobs(2);
+      expect(claimed.map((j) => j.id)).toEqual([urgent.id, old.id]);
+
+      const rest = await adapter.getConcurrentJobs(2);
+      expect(rest.map((j) => j.id)).toEqual([middle.id, recent.id]);
+    });
+
+    it('should only claim jobs that are due and have attempts left', async () => {
+      const exhausted = createJobAt(0);
+      exhausted.attempts = exhausted.maxAttempts;
+      transitionJob(exhausted, 'failed');
+      const scheduled = createJobAt(1);
+      scheduled.runAt = new Date(Date.now() + 60_000).toISOString();
+      transitionJob(scheduled, 'delayed');
+      const retry = createJobAt(2);
+      retry.maxAttempts = 3;
+      retry.attempts = 1;
+      retry.runAt = new Date(Date.now() - 1000).toISOString();
+      transitionJob(retry, 'delayed');
+      for (const job of [exhausted, scheduled, retry]) {
+        await adapter.addJob(job);
+      }
+
+      const claimed = await adapter.getConcurrentJobs(10);
+      expect(claimed.map((j) => j.id)).toEqual([retry.id]);
+      expect(claimed[0]?.attempts).toBe(1);
+      expect((await adapter.getJob(exhausted.id))?.status).toBe('failed');
+    });
+
+    it('should add and retrieve jobs', async () => {
+      const job = createJob('test', { foo: 'bar' });
+      const other = createJob('other', {});
+      await adapter.addJob(job);
+      await adapter.addJob(other);
+
+      const retrieved = await adapter.getJob(job.id);
+      expect(retrieved?.id).toBe(job.id);
+      expect(retrieved?.name).toBe(job.name);
+      expect(retrieved?.payload).toEqual(job.payload);
+      expect(await adapter.getJob('missing')).toBeNull();
+      expect(await adapter.getJobs()).toHaveLength(2);
+    });
+
+    it('should not claim jobs with excluded names', async () => {
+      const upload = createJob('upload', {}, { priority: 10 });
+      const analytics = createJob('analytics', {});
+      await adapter.addJob(upload);
+      await adapter.addJob(analytics);
+
+      const batch = await adapter.getConcurrentJobs(2, {
+        excludeNames: ['upload'],
+      });
+      expect(batch.map((j) => j.id)).toEqual([analytics.id]);
+
+      const skipped = await adapter.getJob(upload.id);
+      expect(skipped?.active).toBe(false);
+    });
+
+    it('should only claim jobs with the requested names', async () => {
+      const upload = createJob('upload', {}, { priority: 10 });
+      const first = createJob('analytics', {});
+      const second = createJob('analytics', {});
+      // Created in the same millisecond, the order would be up to the adapter
+      second.created = new Date(Date.parse(first.created) + 1).toISOString();
+      await adapter.addJob(upload);
+      await adapter.addJob(first);
+      await adapter.addJob(second);
+
+      const batch = await adapter.getConcurrentJobs(5, {
+        names: ['analytics'],
+      });
+      expect(batch.map((j) => j.id)).toEqual([first.id, second.id]);
+
+      const skipped = await adapter.getJob(upload.id);
+      expect(skipped?.active).toBe(false);
+    });
+
+    it('should only claim jobs of the requested queue', async () => {
+      const upload = createJob('send', {}, {}, 'uploads');
+      const telemetry = createJob('send', {}, {}, 'telemetry');
+      await adapter.addJob(upload);
+      await adapter.addJob(telemetry);
+
+      const batch = await adapter.getConcurrentJobs(5, { queue: 'telemetry' });
+      expect(batch.map((j) => j.id)).toEqual([telemetry.id]);
+      expect((await adapter.getJob(upload.id))?.queue).toBe('uploads');
+      expect((await adapter.getJob(upload.id))?.active).toBe(false);
+    });
+
+    it('should not claim jobs while a parent is still stored', async () => {
+      const parent = createJob('test', {});
+      const child = createJob('test', {}, { dependsOn: [parent.id] });
+      await adapter.addJob(parent);
+      await adapter.addJob(child);
+
+      const batch = await adapter.getConcurrentJobs(2);
+      expect(batch.map((j) => j.id)).toEqual([parent.id]);
+
+      await adapter.removeJob(parent);
+      const next = await adapter.getConcurrentJobs(2);
+      expect(next.map((j) => j.id)).toEqual([child.id]);
+      expect(next[0]?.dependsOn).toEqual([parent.id]);
+    });
+
+    it('should not wait for parents that completed', async () => {
+      const parent = createJob('test', {});
+      transitionJob(parent, 'active');
+      transitionJob(parent, 'completed');
+      const child = createJob('test', {}, { dependsOn: [parent.id] });
+      await adapter.addJob(parent);
+      await adapter.addJob(child);
+
+      const batch = await adapter.getConcurrentJobs(2);
+      expect(batch.map((j) => j.id)).toEqual([child.id]);
+    });
+
+    itWith(
+      ['recover'],
+      'should put active jobs back to waiting or delayed on recover',
+      async () => {
+        const running = createJobAt(0);
+        const scheduled = createJobAt(1);
+        scheduled.runAt = new Date(Date.now() + 60_000).toISOString();
+        transitionJob(scheduled, 'delayed');
+        const retrying = createJobAt(2);
+        await adapter.addJob(running);
+        await adapter.addJob(scheduled);
+        await adapter.addJob(retrying);
+        const claimedRetry = (await adapter.getConcurrentJobs(10)).find(
+          (j) => j.id === retrying.id
+        );
+        if (!claimedRetry) throw new Error('Expected a claimed job');
+        // Interrupted while its next retry was already scheduled
+        claimedRetry.runAt = new Date(Date.now() + 60_000).toISOString();
+        await adapter.updateJob(claimedRetry);
+
+        await adapter.recover?.();
+
+        const recovered = await adapter.getJob(running.id);
+        expect(recovered?.status).toBe('waiting');
+        expect(recovered?.active).toBe(false);
+        expect((await adapter.getJob(scheduled.id))?.status).toBe('delayed');
+        const recoveredRetry = await adapter.getJob(retrying.id);
+        expect(recoveredRetry?.status).toBe('delayed');
+        expect(recoveredRetry?.active).toBe(false);
+        const claimed = await adapter.getConcurrentJobs(10);
+        expect(claimed.map((j) => j.id)).toEqual([running.id]);
+      }
+    );
+
+    it('should round-trip every job field through addJob and updateJob', async () => {
+      const job = createJobAt(0);
+      await adapter.addJob(job);
+
+      const updated: Job<unknown> = {
+        ...job,
+        queue: 'conformance',
+        payload: { nested: { list: [1, 'two', null] } },
+        metaData: { source: 'conformance' },
+        priority: 7,
+        attempts: 2,
+        status: 'delayed',
+        active: false,
+        timeout: 5000,
+        failed: new Date(Date.UTC(2024, 0, 2)).toISOString(),
+        runAt: new Date(Date.UTC(2024, 0, 3)).toISOString(),
+        workerName: 'conformance-worker',
+        maxAttempts: 5,
+        timeInterval: 250,
+        ttl: 60_000,
+        onlineOnly: true,
+        progress: { percent: 40, step: 'upload' },
+        dependsOn: ['parent-id'],
+        onParentFailure: 'wait',
+        uniqueKey: 'conformance-key',
+        uniqueScope: 'active',
+        backoff: { type: 'linear', delay: 100, maxDelay: 1000, jitter: true },
+        attemptHistory: [
+          {
+            attempt: 1,
+            outcome: 'failed',
+            startedAt: new Date(Date.UTC(2024, 0, 2)).toISOString(),
+            finishedAt: new Date(Date.UTC(2024, 0, 2, 0, 1)).toISOString(),
+            duration: 60_000,
+            error: { name: 'Error', message: 'Boom', status: 503 },
+          },
+        ],
+        finishedAt: new Date(Date.UTC(2024, 0, 4)).toISOString(),
+        result: { uploaded: true },
+        removeOnComplete: { count: 10, age: 3600 },
+        removeOnFail: false,
+        tags: ['photos', 'wifi'],
+      };
+      await adapter.updateJob(updated);
+
+      expect(await adapter.getJob(job.id)).toEqual(updated);
+      expect(await adapter.getJobs()).toEqual([updated]);
+    });
+
+    it('should remove a job', async () => {
+      const job = createJobAt(0);
+      await adapter.addJob(job);
+
+      await adapter.removeJob(job);
+
+      expect(await adapter.getJob(job.id)).toBeNull();
+      expect(await adapter.getJobs()).toEqual([]);
+    });
+
+    itWith(
+      ['deadLetterQueue'],
+      'should keep dead jobs out of the main storage until restored',
+      async () => {
+        const job = createJobAt(0);
+        const child = createJobAt(1);
+        child.dependsOn = [job.id];
+        await adapter.addJob(job);
+        await adapter.addJob(child);
+        const [claimed] = await adapter.getConcurrentJobs(1);
+        if (!claimed) throw new Error('Expected a claimed job');
+
+        claimed.attempts = 1;
+        claimed.failed = new Date().toISOString();
+        transitionJob(claimed, 'failed');
+        await adapter.moveToDLQ?.(claimed);
+
+        expect(await adapter.getJob(job.id)).toBeNull();
+        expect(await adapter.getDeadJobs?.()).toEqual([
+          expect.objectContaining({
+            id: job.id,
+            status: 'failed',
+            attempts: 1,
+            failed: claimed.failed,
+            payload: job.payload,
+          }),
+        ]);
+        // A dead parent still holds back its dependents
+        expect(await adapter.getConcurrentJobs(10)).toEqual([]);
+
+        claimed.attempts = 0;
+        claimed.failed = null;
+        transitionJob(claimed, 'waiting');
+        await adapter.restoreDeadJob?.(claimed);
+
+        expect(await adapter.getDeadJobs?.()).toEqual([]);
+        const claimedAgain = await adapter.getConcurrentJobs(1);
+        expect(claimedAgain.map((j) => j.id)).toEqual([job.id]);
+        expect(claimedAgain[0]?.attempts).toBe(0);
+      }
+    );
+
+    itWith(['deadLetterQueue'], 'should delete dead jobs', async () => {
+      const job = createJobAt(0);
+      await adapter.addJob(job);
+      transitionJob(job, 'failed');
+      await adapter.moveToDLQ?.(job);
+
+      await adapter.removeDeadJob?.(job.id);
+
+      expect(await adapter.getDeadJobs?.()).toEqual([]);
+      expect(await adapter.getJob(job.id)).toBeNull();
+    });
+
+    itWith(
+      ['deadLetterQueue'],
+      'should not claim jobs while a parent is in the DLQ',
+      async () => {
+        const parent = createJob('test', {});
+        const child = createJob('test', {}, { dependsOn: [parent.id] });
+        await adapter.addJob(parent);
+        await adapter.addJob(child);
+        transitionJob(parent, 'failed');
+        await adapter.moveToDLQ?.(parent);
+
+        expect(await adapter.getConcurrentJobs(2)).toEqual([]);
+
+        await adapter.removeDeadJob?.(parent.id);
+        const batch = await adapter.getConcurrentJobs(2);
+        expect(batch.map((j) => j.id)).toEqual([child.id]);
+      }
+    );
+
+    itWith(
+      ['addJobs', 'uniqueJobs'],
+      'should add jobs in bulk, resolving duplicates in order',
+      async () => {
+        const first = createJob('sync', {}, { uniqueKey: 'sync' });
+        const second = createJob('sync', {}, { uniqueKey: 'sync' });
+        const other = createJob('upload', {});
+
+        const duplicateIds = await adapter.addJobs?.([
+          { job: first },
+          { job: second },
+          { job: other },
+        ]);
+
+        expect(duplicateIds).toEqual([undefined, first.id, undefined]);
+        expect((await adapter.getJobs()).map((j) => j.id)).toEqual([
+          first.id,
+          other.id,
+        ]);
+      }
+    );
+
+    itWith(
+      ['uniqueJobs'],
+      'should not insert duplicates of a stored id or held unique key',
+      async () => {
+        const job = createJob('sync', {}, { uniqueKey: 'sync' });
+        expect(await adapter.addJob(job)).toBeUndefined();
+
+        const sameKey = createJob('sync', {}, { uniqueKey: 'sync' });
+        const sameId = createJob('sync', {}, { jobId: job.id });
+        expect(await adapter.addJob(sameKey)).toBe(job.id);
+        expect(await adapter.addJob(sameId)).toBe(job.id);
+        expect(await adapter.getJobs()).toHaveLength(1);
+
+        // A key scoped to 'waiting' is released once the job starts
+        transitionJob(job, 'active');
+        await adapter.updateJob(job);
+        expect(await adapter.addJob(sameKey)).toBeUndefined();
+        expect(await adapter.getJobs()).toHaveLength(2);
+      }
+    );
+
+    itWith(
+      ['uniqueJobs'],
+      'should hold an active-scoped unique key while the job runs',
+      async () => {
+        const job = createJob(
+          'sync',
+          {},
+          { uniqueKey: 'sync', uniqueScope: 'active' }
+        );
+        await adapter.addJob(job);
+        transitionJob(job, 'active');
+        await adapter.updateJob(job);
+
+        const duplicate = createJob('sync', {}, { uniqueKey: 'sync' });
+        expect(await adapter.addJob(duplicate)).toBe(job.id);
+      }
+    );
+
+    itWith(
+      ['uniqueJobs'],
+      'should replace the payload and run time of a waiting duplicate',
+      async () => {
+        const job = createJob('save', { text: 'a' }, { uniqueKey: 'draft' });
+        await adapter.addJob(job);
+
+        const update = createJob(
+          'save',
+          { text: 'ab' },
+          { uniqueKey: 'draft', delay: 5000 }
+        );
+        expect(await adapter.addJob(update, { replace: true })).toBe(job.id);
+
+        const stored = await adapter.getJob(job.id);
+        expect(stored?.payload).toEqual({ text: 'ab' });
+        expect(stored?.runAt).toBe(update.runAt);
+      }
+    );
+
+    itWith(
+      ['uniqueJobs'],
+      'should keep the unique key of a claimed job returned to the queue',
+      async () => {
+        const job = createJob('sync', {}, { uniqueKey: 'sync' });
+        await adapter.addJob(job);
+        const [claimed] = await adapter.getConcurrentJobs(1);
+        if (!claimed) throw new Error('Expected a claimed job');
+
+        const duplicate = createJob('sync', {}, { uniqueKey: 'sync' });
+        expect(await adapter.addJob(duplicate)).toBe(job.id);
+
+        transitionJob(claimed, 'waiting');
+        await adapter.updateJob(claimed);
+        expect(await adapter.addJob(duplicate)).toBe(job.id);
+      }
+    );
+
+    itWith(
+      ['conditionalWrites'],
+      'should only change a job whose status is unchanged',
+      async () => {
+        const job = createJob('test', {});
+        await adapter.addJob(job);
+        expect(
+          await adapter.updateJobIfStatus?.({ ...job, priority: 5 }, 'waiting')
+        ).toBe(true);
+        expect((await adapter.getJob(job.id))?.priority).toBe(5);
+
+        await adapter.getConcurrentJobs(1);
+        expect(
+          await adapter.updateJobIfStatus?.({ ...job, priority: 10 }, 'waiting')
+        ).toBe(false);
+        expect(await adapter.removeJobIfStatus?.(job, 'waiting')).toBe(false);
+        expect(await adapter.getJob(job.id)).toMatchObject({
+          status: 'active',
+          priority: 5,
+        });
+        expect(await adapter.removeJobIfStatus?.(job, 'active')).toBe(true);
+        expect(await adapter.getJob(job.id)).toBeNull();
+      }
+    );
+
+    itWith(
+      ['queries', 'deadLetterQueue'],
+      'should scope counts, queries and run times to a queue',
+      async () => {
+        const upload = createJob('send', {}, {}, 'uploads');
+        const delayed = createJob('send', {}, { delay: 60000 }, 'telemetry');
+        const telemetry = createJob('send', {}, {}, 'telemetry');
+        const dead = createJob('send', {}, {}, 'uploads');
+        for (const job of [upload, delayed, telemetry, dead]) {
+          await adapter.addJob(job);
+        }
+        transitionJob(dead, 'failed');
+        await adapter.moveToDLQ?.(dead);
+
+        expect(await adapter.getNextRunAt?.('uploads')).toBeNull();
+        expect(await adapter.getNextRunAt?.('telemetry')).toBe(delayed.runAt);
+        const counts = await adapter.getJobCounts?.('uploads');
+        expect(counts?.total).toBe(2);
+        expect(counts?.states).toMatchObject({ waiting: 1, failed: 1 });
+        const failed = await adapter.queryJobs?.({
+          queue: 'uploads',
+          states: ['failed'],
+        });
+        expect(failed?.map((j) => j.id)).toEqual([dead.id]);
+      }
+    );
+
+    itWith(
+      ['queries', 'deadLetterQueue'],
+      'should query and count jobs, dead jobs included',
+      async () => {
+        let created = Date.now();
+        const add = async (name: string, jobOptions: JobOptions = {}) => {
+          const job = createJob(name, {}, jobOptions);
+          job.created = new Date(created++).toISOString();
+          await adapter.addJob(job);
+          return job;
+        };
+        const upload = await add('upload', { tags: ['photos'] });
+        const delayed = await add('upload', { delay: 60000, priority: 1 });
+        const sync = await add('sync', { tags: ['photos', 'wifi'] });
+        const dead = await add('sync');
+        transitionJob(dead, 'failed');
+        await adapter.moveToDLQ?.(dead);
+
+        const ids = async (query: JobQuery) =>
+          ((await adapter.queryJobs?.(query)) ?? []).map((j) => j.id);
+        expect(await ids({})).toEqual([
+          delayed.id,
+          upload.id,
+          sync.id,
+          dead.id,
+        ]);
+        expect(await ids({ names: ['sync'], states: ['failed'] })).toEqual([
+          dead.id,
+        ]);
+        expect(await ids({ tags: ['photos'] })).toEqual([upload.id, sync.id]);
+        expect(
+          await ids({
+            orderBy: { field: 'created', direction: 'desc' },
+            offset: 1,
+            limit: 2,
+          })
+        ).toEqual([sync.id, delayed.id]);
+        expect(await ids({ orderBy: { field: 'runAt' } })).toEqual([
+          upload.id,
+          sync.id,
+          dead.id,
+          delayed.id,
+        ]);
+
+        const counts = await adapter.getJobCounts?.();
+        expect(counts?.total).toBe(4);
+        expect(counts?.states).toMatchObject({
+          waiting: 2,
+          delayed: 1,
+          failed: 1,
+          active: 0,
+        });
+        expect(counts?.names.sync).toMatchObject({ waiting: 1, failed: 1 });
+      }
+    );
+
+    itWith(
+      ['pruning', 'deadLetterQueue'],
+      'should prune finished jobs beyond a retention limit',
+      async () => {
+        const now = Date.now();
+        const finish = (age: number, status: 'completed' | 'failed') => {
+          const job = createJob('test', {});
+          transitionJob(job, 'active');
+          transitionJob(job, status);
+          job.finishedAt = new Date(now - age).toISOString();
+          return job;
+        };
+        const older = finish(2000, 'completed');
+        const newer = finish(1000, 'completed');
+        const waiting = createJob('test', {});
+        await adapter.addJob(older);
+        await adapter.addJob(newer);
+        await adapter.addJob(waiting);
+
+        await adapter.pruneJobs?.('completed', { count: 1 });
+        expect((await adapter.getJobs()).map((j) => j.id)).toEqual([
+          newer.id,
+          waiting.id,
+        ]);
+
+        const oldDead = finish(60000, 'failed');
+        const dead = finish(0, 'failed');
+        await adapter.addJob(oldDead);
+        await adapter.addJob(dead);
+        await adapter.moveToDLQ?.(oldDead);
+        await adapter.moveToDLQ?.(dead);
+
+        await adapter.pruneJobs?.('failed', { age: 30000 });
+        expect((await adapter.getDeadJobs?.())?.map((j) => j.id)).toEqual([
+          dead.id,
+        ]);
+      }
+    );
+
+    itWith(
+      ['throttling'],
+      'should claim a throttle window only once it has closed',
+      async () => {
+        const key = createJob('throttle', {}).id;
+        const other = createJob('throttle', {}).id;
+        const closed = new Date(Date.now() - 1).toISOString();
+        const open = new Date(Date.now() + 60000).toISOString();
+
+        expect(
+          await adapter.claimThrottleWindow?.(key, 'a', closed)
+        ).toBeUndefined();
+        expect(
+          await adapter.claimThrottleWindow?.(key, 'b', open)
+        ).toBeUndefined();
+        expect(await adapter.claimThrottleWindow?.(key, 'c', open)).toBe('b');
+        expect(
+          await adapter.claimThrottleWindow?.(other, 'd', open)
+        ).toBeUndefined();
+      }
+    );
+
+    itWith(
+      ['throttling'],
+      'should open a throttle window for only one of concurrent claims',
+      async () => {
+        const key = createJob('throttle', {}).id;
+        const open = new Date(Date.now() + 60000).toISOString();
+
+        const results = await Promise.all([
+          adapter.claimThrottleWindow?.(key, 'a', open),
+          adapter.claimThrottleWindow?.(key, 'b', open),
+        ]);
+
+        expect(results).toEqual([undefined, 'a']);
+      }
+    );
+
+    itWith(
+      ['throttling'],
+      'should close every throttle window on deleteAll',
+      async () => {
+        const key = createJob('throttle', {}).id;
+        const open = new Date(Date.now() + 60000).toISOString();
+        await adapter.claimThrottleWindow?.(key, 'a', open);
+
+        await adapter.deleteAll();
+
+        expect(
+          await adapter.claimThrottleWindow?.(key, 'b', open)
+        ).toBeUndefined();
+      }
+    );
+
+    itWith(
+      ['recurringJobs'],
+      'should save, update and remove recurring definitions',
+      async () => {
+        const definition = createDefinition('cleanup');
+        await adapter.saveRecurringJob?.(definition);
+        await adapter.saveRecurringJob?.({ ...definition, count: 2 });
+
+        const definitions = await adapter.getRecurringJobs?.();
+        expect(definitions).toEqual([{ ...definition, count: 2 }]);
+
+        await adapter.removeRecurringJob?.('cleanup');
+        expect(await adapter.getRecurringJobs?.()).toEqual([]);
+      }
+    );
+
+    itWith(
+      ['recurringJobs'],
+      'should keep every definition saved concurrently',
+      async () => {
+        await adapter.saveRecurringJob?.(createDefinition('stale'));
+
+        await Promise.all([
+          adapter.saveRecurringJob?.(createDefinition('cleanup')),
+          adapter.saveRecurringJob?.(createDefinition('sync')),
+          adapter.removeRecurringJob?.('stale'),
+        ]);
+
+        const ids = ((await adapter.getRecurringJobs?.()) ?? []).map(
+          (d) => d.id
+        );
+        expect(ids.sort()).toEqual(['cleanup', 'sync']);
+        await adapter.removeRecurringJob?.('cleanup');
+        await adapter.removeRecurringJob?.('sync');
+      }
+    );
+
+    it('should clear all jobs', async () => {
+      await adapter.addJob(createJob('test', {}));
+      await adapter.deleteAll();
+      expect(await adapter.getJobs()).toEqual([]);
+    });
+  });
+}
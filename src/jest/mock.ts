@@ -1,5 +1,6 @@
 import { EventEmitter } from 'eventemitter3';
 import type { Adapter } from '../types';
+import { countJobs } from '../utils/helpers';
 
 // Use official NetInfo mock
 jest.mock('@react-native-community/netinfo', () =>
@@ -7,16 +8,22 @@ jest.mock('@react-native-community/netinfo', () =>
 );
 
 export class Queue extends EventEmitter {
+  name = 'default';
+
   constructor(_adapter?: Adapter, _options?: unknown) {
     super();
   }
 
-  stop = jest.fn();
+  stop = jest.fn().mockResolvedValue(undefined);
 
   pauseJob = jest.fn();
 
   addWorker = jest.fn();
 
+  addBatchWorker = jest.fn();
+
+  addLimiter = jest.fn();
+
   resumeJob = jest.fn();
 
   removeWorker = jest.fn();
@@ -24,6 +31,56 @@ export class Queue extends EventEmitter {
   start = jest.fn().mockResolvedValue(undefined);
 
   addJob = jest.fn().mockResolvedValue('mock-job-id');
+
+  addJobs = jest.fn().mockResolvedValue([]);
+
+  waitForJob = jest.fn().mockResolvedValue(undefined);
+
+  cancelJob = jest.fn().mockResolvedValue(true);
+
+  retryJob = jest.fn().mockResolvedValue(true);
+
+  promoteJob = jest.fn().mockResolvedValue(true);
+
+  updatePriority = jest.fn().mockResolvedValue(true);
+
+  updatePayload = jest.fn().mockResolvedValue(true);
+
+  removeJob = jest.fn().mockResolvedValue(true);
+
+  getJobCounts = jest.fn().mockResolvedValue(countJobs([]));
+
+  getJobs = jest.fn().mockResolvedValue([]);
+
+  getDeadJobs = jest.fn().mockResolvedValue([]);
+
+  retryDeadJob = jest.fn().mockResolvedValue(true);
+
+  retryAllDead = jest.fn().mockResolvedValue(0);
+
+  purgeDeadJobs = jest.fn().mockResolvedValue(0);
+
+  addRecurring = jest.fn().mockResolvedValue('mock-recurring-id');
+
+  removeRecurring = jest.fn().mockResolvedValue(true);
+
+  getRecurringJobs = jest.fn().mockResolvedValue([]);
+}
+
+export class QueueManager {
+  constructor(_adapter?: Adapter, _options?: unknown) {}
+
+  createQueue = jest.fn((name: string, _options?: unknown) =>
+    Object.assign(new Queue(), { name })
+  );
+
+  getQueue = jest.fn().mockReturnValue(undefined);
+
+  getQueues = jest.fn().mockReturnValue([]);
+
+  start = jest.fn().mockResolvedValue(undefined);
+
+  stop = jest.fn().mockResolvedValue(undefined);
 }
 
 class BaseMockAdapter implements Adapter {
@@ -33,17 +90,45 @@ class BaseMockAdapter implements Adapter {
 
   addJob = jest.fn().mockResolvedValue(undefined);
 
+  addJobs = jest.fn().mockResolvedValue([]);
+
   recover = jest.fn().mockResolvedValue(undefined);
 
   updateJob = jest.fn().mockResolvedValue(undefined);
 
   removeJob = jest.fn().mockResolvedValue(undefined);
 
+  updateJobIfStatus = jest.fn().mockResolvedValue(true);
+
+  removeJobIfStatus = jest.fn().mockResolvedValue(true);
+
   deleteAll = jest.fn().mockResolvedValue(undefined);
 
+  queryJobs = jest.fn().mockResolvedValue([]);
+
+  getJobCounts = jest.fn().mockResolvedValue(countJobs([]));
+
   moveToDLQ = jest.fn().mockResolvedValue(undefined);
 
+  getDeadJobs = jest.fn().mockResolvedValue([]);
+
+  restoreDeadJob = jest.fn().mockResolvedValue(undefined);
+
+  removeDeadJob = jest.fn().mockResolvedValue(undefined);
+
+  pruneJobs = jest.fn().mockResolvedValue(undefined);
+
   getConcurrentJobs = jest.fn().mockResolvedValue([]);
+
+  getNextRunAt = jest.fn().mockResolvedValue(null);
+
+  saveRecurringJob = jest.fn().mockResolvedValue(undefined);
+
+  getRecurringJobs = jest.fn().mockResolvedValue([]);
+
+  removeRecurringJob = jest.fn().mockResolvedValue(undefined);
+
+  claimThrottleWindow = jest.fn().mockResolvedValue(undefined);
 }
 
 export class MemoryAdapter extends BaseMockAdapter {}
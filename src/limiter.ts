@@ -0,0 +1,83 @@
+import type { RateLimiterOptions } from './types';
+
+/**
+ * Token bucket rate limiter shared by every worker that references it.
+ * Holds up to `max` tokens and refills them evenly over `duration`.
+ */
+export class RateLimiter {
+  /** Name of the limiter, referenced by `WorkerOptions.limiter`. */
+  name: string;
+  /** Bucket capacity and refill rate. */
+  options: RateLimiterOptions;
+
+  private tokens: number;
+  private updatedAt: number;
+  private pausedUntil: number = 0;
+
+  /**
+   * Creates a new RateLimiter with a full bucket.
+   * @param name - The name of the limiter.
+   * @param options - Bucket capacity and refill window.
+   */
+  constructor(name: string, options: RateLimiterOptions) {
+    if (!(options.max > 0) || !(options.duration > 0)) {
+      throw new Error(
+        `Rate limiter ${name} requires max and duration greater than 0`
+      );
+    }
+    this.name = name;
+    this.options = options;
+    this.tokens = options.max;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Takes a token if one is available.
+   * @returns True if the job may start now.
+   */
+  tryRemoveToken(now: number = Date.now()): boolean {
+    if (now < this.pausedUntil) return false;
+
+    this.refill(now);
+    if (this.tokens < 1) return false;
+
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Milliseconds until a token is available, or 0 if one is available now.
+   */
+  getWaitTime(now: number = Date.now()): number {
+    if (now < this.pausedUntil) return this.pausedUntil - now;
+
+    this.refill(now);
+    if (this.tokens >= 1) return 0;
+
+    // Fractional tokens carry float error; round it off so the wait is not overshot by 1ms
+    const { max, duration } = this.options;
+    const wait = Math.ceil(((1 - this.tokens) * duration) / max - 1e-6);
+    return Math.max(1, wait);
+  }
+
+  /**
+   * Backs off after an upstream rate limit (e.g. HTTP 429).
+   * No token is handed out for `delay` ms; afterwards a single token is available
+   * and the bucket refills at its normal rate.
+   * @param delay - Back-off in milliseconds.
+   */
+  pause(delay: number, now: number = Date.now()) {
+    this.pausedUntil = Math.max(this.pausedUntil, now + delay);
+    this.tokens = 1;
+    this.updatedAt = this.pausedUntil;
+  }
+
+  private refill(now: number) {
+    if (now <= this.updatedAt) return;
+
+    const { max, duration } = this.options;
+    const elapsed = now - this.updatedAt;
+    this.tokens = Math.min(max, this.tokens + (elapsed * max) / duration);
+    this.updatedAt = now;
+  }
+}
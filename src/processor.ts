@@ -1,7 +1,16 @@
-import type { Adapter, Job, JobProcessorOptions } from './types';
+import type EventEmitter from 'eventemitter3';
+import type { Adapter, Job, JobProcessorOptions, StopOptions } from './types';
 import { JobRegistry } from './registry';
 import { JobExecutor } from './executor';
-import { isJobExpired, shouldSkipByBackoff } from './utils/helpers';
+import { BatchWorker } from './batch-worker';
+import {
+  getIdleStatus,
+  isInQueue,
+  isJobDue,
+  isJobExpired,
+  shouldSkipByBackoff,
+  transitionJob,
+} from './utils/helpers';
 
 /**
  * Orchestrates the job processing loop.
@@ -9,16 +18,24 @@ import { isJobExpired, shouldSkipByBackoff } from './utils/helpers';
  */
 export class JobProcessor {
   private runningJobs: number = 0;
+  private runningJobsByName: Map<string, number> = new Map();
   private isConnected: boolean = true;
   private pausedJobNames: Set<string> = new Set();
   private status: 'active' | 'inactive' = 'inactive';
   private unsubscribeNetInfo: (() => void) | null = null;
+  private inFlight: Set<Promise<void>> = new Set();
+  private wakeUpTimer: ReturnType<typeof setTimeout> | null = null;
+  private wakeUpAt: number = Infinity;
+  /** When each batch worker started waiting for its partial batch to fill up. */
+  private batchWaitStarts: Map<string, number> = new Map();
 
   private adapter: Adapter;
   private registry: JobRegistry;
   private executor: JobExecutor;
   private concurrency: number;
   private monitorNetwork: boolean;
+  private queue?: string;
+  private emitter?: EventEmitter;
 
   constructor(options: JobProcessorOptions) {
     this.adapter = options.adapter;
@@ -26,13 +43,17 @@ export class JobProcessor {
     this.executor = options.executor;
     this.concurrency = options.concurrency ?? 1;
     this.monitorNetwork = options.monitorNetwork ?? false;
+    this.queue = options.queue;
+    this.emitter = options.emitter;
   }
 
   /**
    * Starts the processing loop and network monitoring.
+   * If already active, triggers a processing pass to pick up newly added jobs.
    */
   async start() {
     if (this.status === 'active') {
+      this.process();
       return;
     }
 
@@ -72,13 +93,38 @@ export class JobProcessor {
 
   /**
    * Stops the processing loop and network monitoring.
+   * Resolves once every in-flight job has settled.
+   * @param options - Whether to drain running jobs or abort them.
    */
-  stop() {
+  async stop(options: StopOptions = {}) {
     this.status = 'inactive';
+    this.clearWakeUp();
     if (this.unsubscribeNetInfo) {
       this.unsubscribeNetInfo();
       this.unsubscribeNetInfo = null;
     }
+
+    const settled = Promise.allSettled(Array.from(this.inFlight));
+    const drain = options.drain !== false;
+
+    if (drain && options.timeout === undefined) {
+      await settled;
+      return;
+    }
+
+    if (drain) {
+      let deadline: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([
+        settled,
+        new Promise<void>((resolve) => {
+          deadline = setTimeout(resolve, options.timeout);
+        }),
+      ]);
+      clearTimeout(deadline);
+    }
+
+    this.executor.interruptAll();
+    await settled;
   }
 
   /**
@@ -113,110 +159,385 @@ export class JobProcessor {
     const availableSlots = this.concurrency - this.runningJobs;
     if (availableSlots <= 0) return;
 
-    // Fetch jobs that are NOT currently active
-    const jobs = await this.adapter.getConcurrentJobs(availableSlots);
-
-    if (jobs.length === 0) {
-      if (this.runningJobs === 0) {
-        this.status = 'inactive';
-      }
-      return;
-    }
+    // Fetch jobs that are NOT currently active, skipping names that cannot run right now
+    const jobs = await this.adapter.getConcurrentJobs(availableSlots, {
+      excludeNames: this.getExcludedNames(),
+      queue: this.queue,
+    });
+    this.scheduleLimiterWakeUp();
 
     let jobsStartedThisBatch = 0;
-    let hasSkippedBackoff = false;
-    let nextBackoffDelay = Infinity;
-
-    const unclaim = async (j: Job<any>) => {
-      j.active = false;
-      await this.adapter.updateJob(j);
-    };
+    let hasDeferredJobs = false;
+    let nextWakeUpDelay = Infinity;
 
     for (const job of jobs) {
       // Check if we stopped mid-batch. Use a cast to avoid narrowing issues.
       if ((this.status as string) === 'inactive') {
-        await unclaim(job);
+        await this.unclaim(job);
         continue;
       }
 
       if (this.runningJobs >= this.concurrency) {
         // Unclaim jobs beyond concurrency limit if we over-fetched
-        await unclaim(job);
+        await this.unclaim(job);
         continue;
       }
 
-      // Check if this job type is paused
-      if (this.pausedJobNames.has(job.name)) {
-        await unclaim(job);
+      const { ready, retryIn } = await this.checkJob(job);
+      if (retryIn !== undefined) {
+        hasDeferredJobs = true;
+        nextWakeUpDelay = Math.min(nextWakeUpDelay, retryIn);
+      }
+      if (!ready) continue;
+
+      const worker = this.registry.getWorker(job.name);
+      if (!worker) {
+        // Record failure due to missing worker
+        job.failed = new Date().toISOString();
+        transitionJob(job, getIdleStatus(job));
+        if (job.metaData) {
+          job.metaData.lastError = 'No worker found';
+        }
+        await this.adapter.updateJob(job);
         continue;
       }
 
-      // 1. Check TTL (Hard Expiry)
-      if (isJobExpired(job)) {
-        await this.adapter.removeJob(job);
+      // Batch workers claim their own jobs below
+      if (worker instanceof BatchWorker) {
+        await this.unclaim(job);
         continue;
       }
 
-      // 2. Check TimeInterval (Exponential Backoff + Jitter)
-      const { shouldSkip, remaining } = shouldSkipByBackoff(job);
-      if (shouldSkip) {
-        hasSkippedBackoff = true;
-        nextBackoffDelay = Math.min(nextBackoffDelay, remaining);
-        await unclaim(job);
+      // 6. Per-worker concurrency check
+      if (this.isWorkerAtCapacity(job.name)) {
+        await this.unclaim(job);
         continue;
       }
 
-      // 3. Network Check (Per-Job)
-      if (job.onlineOnly === true && !this.isConnected) {
-        await unclaim(job);
+      // 7. Rate limiter check
+      const limiter = this.registry.getLimiterForJob(job.name);
+      if (limiter && !limiter.tryRemoveToken()) {
+        hasDeferredJobs = true;
+        nextWakeUpDelay = Math.min(nextWakeUpDelay, limiter.getWaitTime());
+        await this.unclaim(job);
+        continue;
+      }
+
+      // Start the job execution
+      jobsStartedThisBatch++;
+      this.track(job.name, () => this.executor.execute(job, worker));
+    }
+
+    // Batch workers claim up to a full batch of their own jobs
+    const batches = await this.processBatches();
+    jobsStartedThisBatch += batches.started;
+    if (batches.retryIn !== Infinity) {
+      hasDeferredJobs = true;
+      nextWakeUpDelay = Math.min(nextWakeUpDelay, batches.retryIn);
+    }
+
+    // Scheduling logic
+    if (jobsStartedThisBatch > 0) {
+      // We started some jobs, keep trying to fill capacity
+      this.process();
+    } else if (hasDeferredJobs) {
+      // No jobs started, but some are delayed or waiting for backoff.
+      // Schedule a retry after the shortest remaining delay.
+      this.scheduleWakeUp(nextWakeUpDelay);
+    } else {
+      // Nothing to do right now. Sleep until the next delayed job or go inactive.
+      await this.scheduleNextRunAt();
+      this.deactivateIfIdle();
+    }
+  }
+
+  /**
+   * Claims and starts one batch per batch worker that has room to run.
+   * A partial batch waits up to `maxWaitMs` for more jobs before it starts.
+   * @returns The number of batches started and the delay before deferred jobs may start.
+   */
+  private async processBatches() {
+    let started = 0;
+    let retryIn = Infinity;
+
+    for (const name of this.registry.getWorkerNames()) {
+      const worker = this.registry.getWorker(name);
+      if (!(worker instanceof BatchWorker)) continue;
+      if ((this.status as string) === 'inactive') break;
+      if (this.runningJobs >= this.concurrency) break;
+
+      const limiter = this.registry.getLimiterForJob(name);
+      if (
+        this.pausedJobNames.has(name) ||
+        this.isWorkerAtCapacity(name) ||
+        limiter?.getWaitTime()
+      ) {
         continue;
       }
 
-      // 4. Max Attempts Check
-      if (job.attempts >= job.maxAttempts) {
-        // Technically shouldn't happen due to adapter filter, but for safety:
-        await unclaim(job);
+      const claimed = await this.adapter.getConcurrentJobs(
+        worker.maxBatchSize,
+        { names: [name], queue: this.queue }
+      );
+      const batch: Job<unknown>[] = [];
+      for (const job of claimed) {
+        // Custom adapters may ignore the name filter
+        if (job.name !== name) {
+          await this.unclaim(job);
+          continue;
+        }
+        const check = await this.checkJob(job);
+        if (check.retryIn !== undefined) {
+          retryIn = Math.min(retryIn, check.retryIn);
+        }
+        if (check.ready) {
+          batch.push(job);
+        }
+      }
+
+      if (batch.length === 0) {
+        this.batchWaitStarts.delete(name);
         continue;
       }
 
-      const worker = this.registry.getWorker(job.name);
-      if (!worker) {
-        // Record failure due to missing worker
-        job.failed = new Date().toISOString();
-        job.active = false;
-        if (job.metaData) {
-          job.metaData.lastError = 'No worker found';
+      // Give a partial batch time to fill up
+      const maxWaitMs = worker.options.maxWaitMs ?? 0;
+      if (batch.length < worker.maxBatchSize && maxWaitMs > 0) {
+        const now = Date.now();
+        const waitStart = this.batchWaitStarts.get(name) ?? now;
+        this.batchWaitStarts.set(name, waitStart);
+        if (now < waitStart + maxWaitMs) {
+          retryIn = Math.min(retryIn, waitStart + maxWaitMs - now);
+          await Promise.all(batch.map((job) => this.unclaim(job)));
+          continue;
         }
-        await this.adapter.updateJob(job);
+      }
+      this.batchWaitStarts.delete(name);
+
+      if (limiter && !limiter.tryRemoveToken()) {
+        retryIn = Math.min(retryIn, limiter.getWaitTime());
+        await Promise.all(batch.map((job) => this.unclaim(job)));
         continue;
       }
 
-      // Start the job execution
-      jobsStartedThisBatch++;
-      this.runningJobs++;
+      started++;
+      this.track(name, () => this.executor.executeBatch(batch, worker));
+    }
+
+    return { started, retryIn };
+  }
+
+  /**
+   * Runs the checks every claimed job must pass before it starts.
+   * Jobs that fail a check are unclaimed, or removed once expired. Expiry is a
+   * final failure, so the dependents of an expired job get their `onParentFailure` policy.
+   * @returns Whether the job may start, and the delay before a deferred job may start.
+   */
+  private async checkJob(
+    job: Job<unknown>
+  ): Promise<{ ready: boolean; retryIn?: number }> {
+    // Check if this job type is paused, or belongs to another queue
+    // (custom adapters may ignore the queue filter)
+    if (this.pausedJobNames.has(job.name) || !isInQueue(job, this.queue)) {
+      await this.unclaim(job);
+      return { ready: false };
+    }
+
+    // 1. Check TTL (Hard Expiry)
+    if (isJobExpired(job)) {
+      await this.executor.expireJob(job);
+      // Dependents that wait for the parent may be claimable now
+      return { ready: false, retryIn: 0 };
+    }
+
+    // 2. Check scheduled run time (Delayed Jobs)
+    // Adapters already filter these, but custom adapters may not.
+    if (!isJobDue(job)) {
+      await this.unclaim(job);
+      return {
+        ready: false,
+        retryIn: new Date(job.runAt as string).getTime() - Date.now(),
+      };
+    }
 
-      // Execute and then continue processing
-      this.executor.execute(job, worker).finally(() => {
+    // 3. Check TimeInterval (Exponential Backoff + Jitter)
+    const { shouldSkip, remaining } = shouldSkipByBackoff(job);
+    if (shouldSkip) {
+      await this.unclaim(job);
+      return { ready: false, retryIn: remaining };
+    }
+
+    // 4. Network Check (Per-Job)
+    if (job.onlineOnly === true && !this.isConnected) {
+      await this.unclaim(job);
+      return { ready: false };
+    }
+
+    // 5. Max Attempts Check
+    if (job.attempts >= job.maxAttempts) {
+      // Technically shouldn't happen as failed jobs are never claimed, but for safety:
+      transitionJob(job, 'failed');
+      await this.adapter.updateJob(job);
+      return { ready: false };
+    }
+
+    return { ready: true };
+  }
+
+  /**
+   * Returns a claimed job to the queue without running it.
+   */
+  private async unclaim(job: Job<unknown>) {
+    transitionJob(job, getIdleStatus(job));
+    await this.adapter.updateJob(job);
+  }
+
+  /**
+   * Counts an execution against the concurrency limits until it settles,
+   * then runs the loop again to fill the freed slot.
+   * @param name - The job name the execution belongs to.
+   * @param run - Starts the execution.
+   */
+  private track(name: string, run: () => Promise<void>) {
+    this.runningJobs++;
+    this.incrementRunning(name, 1);
+
+    const execution = run()
+      .catch((error) => this.reportError(error))
+      .finally(() => {
+        this.inFlight.delete(execution);
         this.runningJobs--;
+        this.incrementRunning(name, -1);
         this.process();
       });
+    this.inFlight.add(execution);
+  }
+
+  /**
+   * Emits an `error` event for a failure outside a worker, or logs it when nobody listens.
+   */
+  private reportError(error: unknown) {
+    if (this.emitter?.listenerCount('error')) {
+      this.emitter.emit(
+        'error',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return;
     }
+    console.warn('[react-native-task-queue] Job processing failed.', error);
+  }
 
-    // Scheduling logic
-    if (jobsStartedThisBatch > 0) {
-      // We started some jobs, keep trying to fill capacity
-      this.process();
-    } else if (hasSkippedBackoff) {
-      // No jobs started, but some are waiting for backoff.
-      // Schedule a retry after the shortest backoff delay.
-      setTimeout(() => this.process(), nextBackoffDelay);
-    } else if (
-      jobsStartedThisBatch === 0 &&
-      this.runningJobs === 0 &&
-      !hasSkippedBackoff
-    ) {
-      // Nothing to do, go inactive.
+  /**
+   * Schedules a wake-up for the earliest delayed job reported by the adapter.
+   */
+  private async scheduleNextRunAt() {
+    const nextRunAt = await this.adapter.getNextRunAt?.(this.queue);
+    if (nextRunAt) {
+      this.scheduleWakeUp(
+        Math.max(0, new Date(nextRunAt).getTime() - Date.now())
+      );
+    }
+  }
+
+  /**
+   * Goes inactive when no job is running and no wake-up is pending.
+   */
+  private deactivateIfIdle() {
+    if (this.runningJobs === 0 && !this.wakeUpTimer) {
       this.status = 'inactive';
     }
   }
+
+  /**
+   * Schedules the processing loop to run again after a delay.
+   * Only one timer is kept; an earlier wake-up is never pushed back.
+   * @param delay - Delay in milliseconds.
+   */
+  private scheduleWakeUp(delay: number) {
+    if (this.status === 'inactive') return;
+
+    const wakeUpAt = Date.now() + delay;
+    if (this.wakeUpTimer && this.wakeUpAt <= wakeUpAt) return;
+
+    this.clearWakeUp();
+    this.wakeUpAt = wakeUpAt;
+    this.wakeUpTimer = setTimeout(() => {
+      this.wakeUpTimer = null;
+      this.wakeUpAt = Infinity;
+      this.process();
+    }, delay);
+  }
+
+  /**
+   * Cancels a pending wake-up timer, if any.
+   */
+  private clearWakeUp() {
+    if (this.wakeUpTimer) {
+      clearTimeout(this.wakeUpTimer);
+      this.wakeUpTimer = null;
+    }
+    this.wakeUpAt = Infinity;
+  }
+
+  /**
+   * Job names the adapter should not claim for single execution: paused names,
+   * names whose worker has reached its concurrency limit, names whose rate limiter
+   * has no tokens and names handled by batch workers.
+   */
+  private getExcludedNames(): string[] {
+    const names = new Set(this.pausedJobNames);
+    for (const name of this.runningJobsByName.keys()) {
+      if (this.isWorkerAtCapacity(name)) {
+        names.add(name);
+      }
+    }
+    for (const name of this.registry.getWorkerNames()) {
+      if (
+        this.registry.getWorker(name) instanceof BatchWorker ||
+        this.registry.getLimiterForJob(name)?.getWaitTime()
+      ) {
+        names.add(name);
+      }
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Wakes the loop when a depleted rate limiter gets a token back,
+   * so jobs excluded because of it start on time.
+   */
+  private scheduleLimiterWakeUp() {
+    let wait = Infinity;
+    for (const name of this.registry.getWorkerNames()) {
+      const limiterWait = this.registry.getLimiterForJob(name)?.getWaitTime();
+      if (limiterWait) {
+        wait = Math.min(wait, limiterWait);
+      }
+    }
+    if (wait !== Infinity) {
+      this.scheduleWakeUp(wait);
+    }
+  }
+
+  /**
+   * Checks whether the worker for a job name is running its maximum number of jobs.
+   * @param name - The job name.
+   */
+  private isWorkerAtCapacity(name: string): boolean {
+    const limit = this.registry.getWorker(name)?.options.concurrency;
+    if (!limit || limit <= 0) return false;
+    return (this.runningJobsByName.get(name) || 0) >= limit;
+  }
+
+  /**
+   * Adjusts the in-flight count for a job name.
+   */
+  private incrementRunning(name: string, delta: number) {
+    const count = (this.runningJobsByName.get(name) || 0) + delta;
+    if (count > 0) {
+      this.runningJobsByName.set(name, count);
+    } else {
+      this.runningJobsByName.delete(name);
+    }
+  }
 }
@@ -0,0 +1,110 @@
+import type {
+  Adapter,
+  QueueOptions,
+  RateLimiterOptions,
+  StopOptions,
+} from './types';
+import { MemoryAdapter } from './adapters/memory';
+import { Queue } from './queue';
+import { RateLimiter } from './limiter';
+
+/**
+ * Creates named queues over one storage adapter, e.g. user-visible uploads
+ * next to background telemetry.
+ * Each queue has its own workers, concurrency and paused job names, and only
+ * runs its own jobs. Storage, rate limiters and crash recovery are shared:
+ * recovery runs once, before the first queue starts.
+ */
+export class QueueManager {
+  private adapter: Adapter;
+  private options: QueueOptions;
+  private queues: Map<string, Queue> = new Map();
+  private limiters: { [name: string]: RateLimiter } = {};
+  private recovery: Promise<void> | null = null;
+
+  /**
+   * Creates a new QueueManager.
+   * @param adapter - The storage adapter shared by every queue. Defaults to MemoryAdapter (non-persistent).
+   * @param options - Default options for every queue.
+   */
+  constructor(adapter?: Adapter, options: QueueOptions = {}) {
+    this.adapter = adapter || new MemoryAdapter();
+    this.options = options;
+  }
+
+  /**
+   * Creates a named queue over the shared adapter.
+   * @param name - The name of the queue. Jobs added to it are stored under this name.
+   * @param options - Options of this queue, on top of the manager's defaults.
+   * @throws If a queue with this name already exists.
+   */
+  createQueue(name: string, options: QueueOptions = {}): Queue {
+    if (this.queues.has(name)) {
+      throw new Error(`Queue ${name} already exists`);
+    }
+
+    const queue = new Queue(this.adapter, {
+      ...this.options,
+      ...options,
+      name,
+      recover: () => this.recover(),
+      limiters: this.limiters,
+    });
+    this.queues.set(name, queue);
+    return queue;
+  }
+
+  /**
+   * Registers a token bucket rate limiter shared by every queue of this manager,
+   * replacing any limiter with the same name. `Queue.addLimiter` on one of its
+   * queues registers a shared limiter as well.
+   * @param name - The name workers reference through `WorkerOptions.limiter`.
+   * @param options - Bucket capacity and refill window.
+   */
+  addLimiter(name: string, options: RateLimiterOptions) {
+    this.limiters[name] = new RateLimiter(name, options);
+  }
+
+  /**
+   * Returns the queue with the given name, if it was created.
+   */
+  getQueue(name: string): Queue | undefined {
+    return this.queues.get(name);
+  }
+
+  /**
+   * Returns every queue created by this manager.
+   */
+  getQueues(): Queue[] {
+    return Array.from(this.queues.values());
+  }
+
+  /**
+   * Recovers jobs left active by a crash, once for the shared storage,
+   * then starts every queue.
+   */
+  async start() {
+    await this.recover();
+    await Promise.all(this.getQueues().map((queue) => queue.start()));
+  }
+
+  /**
+   * Recovers the shared storage on the first call. Every queue awaits it
+   * before starting, whether started by `start` or by adding a job.
+   */
+  private recover(): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = Promise.resolve(this.adapter.recover?.());
+    }
+    return this.recovery;
+  }
+
+  /**
+   * Stops every queue.
+   * @param options - Shutdown behaviour for running jobs, applied to each queue.
+   * @returns A promise that resolves once no job is running in any queue.
+   */
+  async stop(options: StopOptions = {}): Promise<void> {
+    await Promise.all(this.getQueues().map((queue) => queue.stop(options)));
+  }
+}
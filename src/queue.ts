@@ -1,8 +1,24 @@
 import type {
   Adapter,
+  AddJobEntry,
+  BatchWorkerFunction,
+  BulkJob,
+  BatchWorkerOptions,
+  Job,
+  JobCounts,
   JobOptions,
+  JobQuery,
+  JobStatus,
+  JobUpdate,
+  PurgeDeadJobsOptions,
   QueueEvents,
   QueueOptions,
+  RateKeyOptions,
+  RateLimiterOptions,
+  RecurringJob,
+  RecurringOptions,
+  StopOptions,
+  WorkerFunction,
   WorkerOptions,
 } from './types';
 import { MemoryAdapter } from './adapters/memory';
@@ -10,18 +26,36 @@ import EventEmitter from 'eventemitter3';
 import { JobRegistry } from './registry';
 import { JobExecutor } from './executor';
 import { JobProcessor } from './processor';
-import { createJob } from './utils/helpers';
+import { RecurringScheduler } from './scheduler';
+import {
+  DEFAULT_QUEUE,
+  countJobs,
+  createJob,
+  filterJobs,
+  getIdleStatus,
+  isInQueue,
+  transitionJob,
+} from './utils/helpers';
+import { JobCancelledError, JobNotFoundError } from './errors';
+
+/** Statuses in which a job has not run yet and may still be changed. */
+const PENDING_STATUSES: readonly JobStatus[] = ['waiting', 'delayed', 'paused'];
 
 /**
  * The main Queue class responsible for managing jobs and workers.
  * Extends EventEmitter to provide lifecycle events (start, success, failure).
  */
 export class Queue extends EventEmitter<QueueEvents> {
+  /** Name of the queue. Queues sharing an adapter only see and run their own jobs. */
+  readonly name: string;
+
   private adapter: Adapter;
   private registry: JobRegistry;
   private executor: JobExecutor;
   private processor: JobProcessor;
+  private scheduler: RecurringScheduler;
   private isStarting: boolean = false;
+  private recoverOnStart: boolean | (() => Promise<void>);
 
   /**
    * Creates a new Queue instance.
@@ -30,11 +64,17 @@ export class Queue extends EventEmitter<QueueEvents> {
    */
   constructor(adapter?: Adapter, options: QueueOptions = {}) {
     super();
+    this.name = options.name ?? DEFAULT_QUEUE;
+    this.recoverOnStart = options.recover ?? true;
     this.adapter = adapter || new MemoryAdapter();
-    this.registry = new JobRegistry();
+    this.registry = new JobRegistry(options.limiters);
     this.executor = new JobExecutor({
       adapter: this.adapter,
       emitter: this,
+      registry: this.registry,
+      maxAttemptHistory: options.maxAttemptHistory,
+      removeOnComplete: options.removeOnComplete,
+      removeOnFail: options.removeOnFail,
     });
 
     this.processor = new JobProcessor({
@@ -43,16 +83,27 @@ export class Queue extends EventEmitter<QueueEvents> {
       executor: this.executor,
       concurrency: options.concurrency || 1,
       monitorNetwork: !!options.monitorNetwork,
+      queue: this.name,
+      emitter: this,
+    });
+
+    this.scheduler = new RecurringScheduler({
+      adapter: this.adapter,
+      queue: this.name,
+      onJobsAdded: () => {
+        this.processor.start();
+      },
     });
   }
 
   /**
    * Registers a worker function to handle a specific job name.
+   * The worker receives an `AbortSignal` in its context that fires when the job times out.
    */
-  addWorker<T = unknown>(
+  addWorker<T = unknown, R = unknown>(
     name: string,
-    workerFn: (id: string, payload: T) => Promise<void>,
-    options: WorkerOptions<T> = {}
+    workerFn: WorkerFunction<T, R>,
+    options: WorkerOptions<T, R> = {}
   ) {
     this.registry.addWorker({
       name,
@@ -61,6 +112,35 @@ export class Queue extends EventEmitter<QueueEvents> {
     });
   }
 
+  /**
+   * Registers a batch worker that handles several jobs of a name in one call.
+   * The worker resolves with one result or `Error` per job, so retries and the DLQ apply per job.
+   * @param name - The job name to handle.
+   * @param workerFn - Called with up to `maxBatchSize` jobs at a time.
+   * @param options - Batch size, wait time, concurrency and callbacks.
+   */
+  addBatchWorker<T = unknown, R = unknown>(
+    name: string,
+    workerFn: BatchWorkerFunction<T, R>,
+    options: BatchWorkerOptions<T> = {}
+  ) {
+    this.registry.addBatchWorker({
+      name,
+      workerFn,
+      options,
+    });
+  }
+
+  /**
+   * Registers a named token bucket rate limiter that workers can share
+   * through `WorkerOptions.limiter`. Queues of a QueueManager share their limiters.
+   * @param name - The name referenced by workers.
+   * @param options - Maximum jobs started per `duration` milliseconds.
+   */
+  addLimiter(name: string, options: RateLimiterOptions) {
+    this.registry.addLimiter(name, options);
+  }
+
   /**
    * Removes a registered worker.
    */
@@ -74,7 +154,8 @@ export class Queue extends EventEmitter<QueueEvents> {
    * @param name - The name of the job. Must match a registered worker to be processed.
    * @param payload - The data required for the job.
    * @param options - Job-specific options (priority, timeout, metadata).
-   * @returns The UUID of the created job.
+   * @returns The UUID of the created job, or of the existing job when `jobId`,
+   * `uniqueKey`, `debounce` or `throttle` matches a job already added.
    */
   async addJob<T = unknown>(
     name: string,
@@ -82,40 +163,439 @@ export class Queue extends EventEmitter<QueueEvents> {
     options: JobOptions = {}
   ): Promise<string> {
     const autoStart = options.autoStart !== false;
-    const job = createJob(name, payload, options);
+    const job = createJob(name, payload, options, this.name);
+
+    if (options.throttle) {
+      const openJobId = await this.claimThrottleWindow(job, options.throttle);
+      if (openJobId) return openJobId;
+    }
 
-    await this.adapter.addJob(job);
+    const duplicateId = await this.adapter.addJob(job, {
+      replace: !!options.debounce,
+    });
     if (autoStart) {
       this.start();
     }
-    return job.id;
+    return duplicateId || job.id;
+  }
+
+  /**
+   * Adds several jobs at once, e.g. when importing a photo album.
+   * Adapters with `addJobs` store them all or none in a single write;
+   * others add them one by one. Processing starts once, unless every job sets `autoStart: false`.
+   * @template T - The type of the job payloads.
+   * @param jobs - The jobs to add, each with its name, payload and options.
+   * `throttle` is not supported, as throttle windows are not part of the write.
+   * @returns The ids of the jobs in the same order, with duplicates resolved like in `addJob`.
+   */
+  async addJobs<T = unknown>(jobs: BulkJob<T>[]): Promise<string[]> {
+    if (jobs.some(({ options }) => options?.throttle)) {
+      throw new Error('Throttled jobs cannot be added in bulk');
+    }
+    if (jobs.length === 0) return [];
+
+    const entries: AddJobEntry[] = jobs.map(
+      ({ name, payload = {} as T, options = {} }) => ({
+        job: createJob(name, payload, options, this.name),
+        options: { replace: !!options.debounce },
+      })
+    );
+
+    let duplicateIds: Array<string | void> = [];
+    if (this.adapter.addJobs) {
+      duplicateIds = await this.adapter.addJobs(entries);
+    } else {
+      for (const { job, options } of entries) {
+        duplicateIds.push(await this.adapter.addJob(job, options));
+      }
+    }
+
+    if (jobs.some(({ options }) => options?.autoStart !== false)) {
+      this.start();
+    }
+    return entries.map(({ job }, i) => duplicateIds[i] || job.id);
+  }
+
+  /**
+   * Adds a recurring job. Each occurrence is added to the queue as a normal job.
+   * The definition is stored in the adapter, so the schedule survives restarts.
+   * @template T - The type of the job payload.
+   * @param name - The name of the jobs to create. Must match a registered worker.
+   * @param payload - The payload of every occurrence.
+   * @param options - Schedule (`cron` or `every`), limits, catch-up policy and job options.
+   * @returns The id of the recurring definition.
+   */
+  async addRecurring<T = unknown>(
+    name: string,
+    payload: T = {} as T,
+    options: RecurringOptions = {}
+  ): Promise<string> {
+    const id = await this.scheduler.add(name, payload, options);
+    if (options.autoStart !== false) {
+      this.start();
+    }
+    return id;
+  }
+
+  /**
+   * Removes a recurring definition. Occurrences already added to the queue still run.
+   * @param id - The id of the recurring definition.
+   * @returns True if the definition existed.
+   */
+  async removeRecurring(id: string): Promise<boolean> {
+    return this.scheduler.remove(id);
+  }
+
+  /**
+   * Returns all recurring definitions stored in the adapter.
+   */
+  async getRecurringJobs(): Promise<RecurringJob<unknown>[]> {
+    return this.scheduler.getAll();
+  }
+
+  /**
+   * Waits for a job to reach a final state.
+   * @template R - The type of the job result.
+   * @param id - The UUID of the job.
+   * @returns The value returned by the worker, also for a completed job that was
+   * retained (see `removeOnComplete`). Rejects with the last error if the
+   * job exhausts its attempts, with a JobExpiredError if its `ttl` passes
+   * before it runs, with a JobCancelledError if it is cancelled,
+   * or with a JobNotFoundError if the job is unknown.
+   */
+  waitForJob<R = unknown>(id: string): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      const cleanup = () => {
+        this.off('success', onSuccess);
+        this.off('failed', onFailed);
+        this.off('cancelled', onCancelled);
+      };
+      const onSuccess = (job: Job<unknown>, result?: unknown) => {
+        if (job.id !== id) return;
+        cleanup();
+        resolve(result as R);
+      };
+      const onFailed = (job: Job<unknown>, error: Error) => {
+        if (job.id !== id) return;
+        cleanup();
+        reject(error);
+      };
+      const onCancelled = (job: Job<unknown>) => {
+        if (job.id !== id) return;
+        cleanup();
+        reject(new JobCancelledError(id));
+      };
+      const onReadError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      // Subscribe before reading storage so a job finishing in between is not missed
+      this.on('success', onSuccess);
+      this.on('failed', onFailed);
+      this.on('cancelled', onCancelled);
+
+      this.findJob(id).then((job) => {
+        if (!job) {
+          cleanup();
+          reject(new JobNotFoundError(id));
+        } else if (job.status === 'completed') {
+          cleanup();
+          resolve(job.result as R);
+        } else if (job.status === 'failed') {
+          cleanup();
+          reject(new Error(String(job.metaData?.lastError ?? 'Job failed')));
+        }
+      }, onReadError);
+    });
+  }
+
+  /**
+   * Cancels a single job.
+   * A waiting job is removed from storage. A running job has its worker aborted
+   * and is removed without being retried. Emits `cancelled` in both cases.
+   * Jobs that depend on it follow their `onParentFailure` policy.
+   * @param id - The UUID of the job.
+   * @returns True if the job was found and cancelled. Completed jobs cannot be cancelled.
+   */
+  async cancelJob(id: string): Promise<boolean> {
+    if (this.executor.cancel(id)) return true;
+
+    const job = await this.getOwnJob(id);
+    if (!job || job.status === 'completed') return false;
+
+    // The job may have been claimed by the processor but not started yet
+    if (this.executor.cancel(id)) return true;
+    const status = job.status;
+    if (status === 'active') {
+      this.executor.skip(id);
+    }
+
+    // Claimed or finished since it was read: abort it if it runs, or read it again
+    if (!(await this.removeIfStatus(job, status))) return this.cancelJob(id);
+
+    transitionJob(job, 'cancelled');
+    this.emit('cancelled', job);
+    await this.executor.failDependents(job);
+    return true;
+  }
+
+  /**
+   * Retries a job that failed for good right away, with its attempts and backoff reset.
+   * Works for jobs in the dead letter queue as well as failed jobs kept in place.
+   * Its attempt history is kept.
+   * @param id - The UUID of the job.
+   * @returns True if the job had failed and is back in the queue.
+   */
+  async retryJob(id: string): Promise<boolean> {
+    const deadJob = await this.findDeadJob(id);
+    if (deadJob) {
+      await this.restore(deadJob);
+      this.start();
+      return true;
+    }
+
+    const job = await this.getOwnJob(id);
+    if (job?.status !== 'failed') return false;
+
+    this.resetAttempts(job);
+    if (!(await this.updateIfStatus(job, 'failed'))) return false;
+    this.start();
+    return true;
+  }
+
+  /**
+   * Runs a delayed job, or a job backing off before its next attempt, as soon as possible.
+   * @param id - The UUID of the job.
+   * @returns True if the job was delayed and is now waiting.
+   */
+  async promoteJob(id: string): Promise<boolean> {
+    const job = await this.getOwnJob(id);
+    if (job?.status !== 'delayed') return false;
+
+    job.runAt = null;
+    transitionJob(job, 'waiting');
+    if (!(await this.updateIfStatus(job, 'delayed'))) return false;
+    this.start();
+    return true;
+  }
+
+  /**
+   * Holds a waiting or delayed job in the `paused` status: it is not claimed
+   * until `resumeJobById` puts it back in the queue. Unlike `pauseJob`, which
+   * pauses every job of a name in this process, the hold is stored, so it
+   * outlasts restarts.
+   * @param id - The UUID of the job.
+   * @returns True if the job was waiting or delayed and is now paused.
+   */
+  async pauseJobById(id: string): Promise<boolean> {
+    const job = await this.getOwnJob(id);
+    if (job?.status !== 'waiting' && job?.status !== 'delayed') return false;
+
+    const status = job.status;
+    transitionJob(job, 'paused');
+    return this.updateIfStatus(job, status);
+  }
+
+  /**
+   * Puts a job paused by `pauseJobById` back in the queue: `delayed` while its
+   * `runAt` is in the future, otherwise `waiting`.
+   * @param id - The UUID of the job.
+   * @returns True if the job was paused and is back in the queue.
+   */
+  async resumeJobById(id: string): Promise<boolean> {
+    const job = await this.getOwnJob(id);
+    if (job?.status !== 'paused') return false;
+
+    transitionJob(job, getIdleStatus(job));
+    if (!(await this.updateIfStatus(job, 'paused'))) return false;
+    this.start();
+    return true;
+  }
+
+  /**
+   * Changes the priority of a job that has not started yet.
+   * @param id - The UUID of the job.
+   * @param priority - The new priority. Higher values are processed first.
+   * @returns True if the job was pending and has been updated.
+   */
+  async updatePriority(id: string, priority: number): Promise<boolean> {
+    const job = await this.getOwnJob(id);
+    if (!job || !PENDING_STATUSES.includes(job.status)) return false;
+
+    job.priority = priority;
+    return this.updateIfStatus(job, job.status);
+  }
+
+  /**
+   * Replaces the payload and/or merges metadata of a job that has not started yet.
+   * @template T - The type of the job payload.
+   * @param id - The UUID of the job.
+   * @param update - The new payload and metadata to merge.
+   * @returns True if the job was pending and has been updated.
+   */
+  async updatePayload<T = unknown>(
+    id: string,
+    update: JobUpdate<T>
+  ): Promise<boolean> {
+    const job = await this.getOwnJob(id);
+    if (!job || !PENDING_STATUSES.includes(job.status)) return false;
+
+    if (update.payload !== undefined) {
+      job.payload = update.payload;
+    }
+    if (update.metaData) {
+      job.metaData = { ...job.metaData, ...update.metaData };
+    }
+    return this.updateIfStatus(job, job.status);
+  }
+
+  /**
+   * Removes a job that is not running: a pending, finished or dead job.
+   * Removing a pending job cancels it: `cancelled` is emitted and its dependents
+   * follow their `onParentFailure` policy. Use `cancelJob` to stop a running job.
+   * @param id - The UUID of the job.
+   * @returns True if the job was removed.
+   */
+  async removeJob(id: string): Promise<boolean> {
+    const job = await this.getOwnJob(id);
+    if (!job) {
+      if (!(await this.findDeadJob(id))) return false;
+      await this.adapter.removeDeadJob?.(id);
+      return true;
+    }
+
+    const status = job.status;
+    if (status === 'active') return false;
+    if (!(await this.removeIfStatus(job, status))) return false;
+
+    if (PENDING_STATUSES.includes(status)) {
+      transitionJob(job, 'cancelled');
+      this.emit('cancelled', job);
+      await this.executor.failDependents(job);
+    }
+    return true;
+  }
+
+  /**
+   * Counts this queue's jobs by state and by job name. Dead jobs count as `failed`.
+   */
+  async getJobCounts(): Promise<JobCounts> {
+    if (this.adapter.getJobCounts) {
+      return this.adapter.getJobCounts(this.name);
+    }
+    return countJobs(await this.getAllJobs());
+  }
+
+  /**
+   * Returns this queue's jobs matching a query, dead jobs included.
+   * Adapters without `queryJobs` load every job and filter them in memory.
+   * @param query - Filters by name, state and tag, sort order and page.
+   */
+  async getJobs(query: JobQuery = {}): Promise<Job<unknown>[]> {
+    const ownQuery = { ...query, queue: this.name };
+    if (this.adapter.queryJobs) {
+      return this.adapter.queryJobs(ownQuery);
+    }
+    return filterJobs(await this.getAllJobs(), ownQuery);
+  }
+
+  /**
+   * Returns this queue's jobs in the dead letter queue, i.e. jobs that failed for good.
+   */
+  async getDeadJobs(): Promise<Job<unknown>[]> {
+    this.assertDLQSupported();
+    return this.getOwnDeadJobs();
+  }
+
+  /**
+   * Moves a dead job back to the queue with its attempts reset.
+   * Its attempt history is kept.
+   * @param id - The UUID of the job.
+   * @returns True if the job was found in the dead letter queue.
+   */
+  async retryDeadJob(id: string): Promise<boolean> {
+    const job = (await this.getDeadJobs()).find((j) => j.id === id);
+    if (!job) return false;
+
+    await this.restore(job);
+    this.start();
+    return true;
+  }
+
+  /**
+   * Moves every dead job back to the queue with its attempts reset.
+   * @returns The number of jobs retried.
+   */
+  async retryAllDead(): Promise<number> {
+    const jobs = await this.getDeadJobs();
+    for (const job of jobs) {
+      await this.restore(job);
+    }
+    if (jobs.length > 0) {
+      this.start();
+    }
+    return jobs.length;
+  }
+
+  /**
+   * Deletes jobs from the dead letter queue.
+   * @param options - Restricts the purge to jobs that failed long enough ago.
+   * @returns The number of jobs deleted.
+   */
+  async purgeDeadJobs(options: PurgeDeadJobsOptions = {}): Promise<number> {
+    const { olderThan } = options;
+    const cutoff = Date.now() - (olderThan ?? 0);
+    const jobs = (await this.getDeadJobs()).filter(
+      (job) =>
+        olderThan === undefined ||
+        (!!job.failed && new Date(job.failed).getTime() <= cutoff)
+    );
+
+    for (const job of jobs) {
+      await this.adapter.removeDeadJob?.(job.id);
+    }
+    return jobs.length;
   }
 
   /**
    * Starts processing the queue.
-   * If already active, this method does nothing.
+   * If already active, this only triggers a processing pass for newly added jobs.
    * On first start, recovers any ghost jobs (jobs stuck in active state from previous crash).
    */
   async start() {
-    if ((this.processor as any).status === 'active') return;
+    if ((this.processor as any).status === 'active') {
+      await this.processor.start();
+      return;
+    }
 
     this.isStarting = true;
 
     // Recover ghost jobs on startup
-    await this.adapter.recover?.();
+    if (typeof this.recoverOnStart === 'function') {
+      await this.recoverOnStart();
+    } else if (this.recoverOnStart) {
+      await this.adapter.recover?.();
+    }
 
     // Check if we were stopped during recovery
     if (!this.isStarting) return;
 
+    await this.scheduler.start();
     await this.processor.start();
   }
 
   /**
    * Stops processing the queue.
+   * By default running jobs are allowed to finish; see StopOptions for
+   * a drain deadline or aborting them immediately.
+   * @param options - Shutdown behaviour for running jobs.
+   * @returns A promise that resolves once no job is running.
    */
-  stop() {
+  async stop(options: StopOptions = {}): Promise<void> {
     this.isStarting = false;
-    this.processor.stop();
+    this.scheduler.stop();
+    await this.processor.stop(options);
   }
 
   /**
@@ -131,4 +611,128 @@ export class Queue extends EventEmitter<QueueEvents> {
   resumeJob(name: string) {
     this.processor.resumeJob(name);
   }
+
+  /**
+   * Looks a job up in storage, then in the dead letter queue.
+   */
+  private async findJob(id: string): Promise<Job<unknown> | null> {
+    return (await this.getOwnJob(id)) ?? this.findDeadJob(id);
+  }
+
+  /**
+   * Looks a job up in the dead letter queue only.
+   */
+  private async findDeadJob(id: string): Promise<Job<unknown> | null> {
+    const deadJobs = await this.getOwnDeadJobs();
+    return deadJobs.find((j) => j.id === id) ?? null;
+  }
+
+  /**
+   * Looks a job of this queue up in storage. Jobs of other queues are not found.
+   */
+  private async getOwnJob(id: string): Promise<Job<unknown> | null> {
+    const job = await this.adapter.getJob(id);
+    return job && isInQueue(job, this.name) ? job : null;
+  }
+
+  /**
+   * Returns the dead jobs of this queue, or none if the adapter has no DLQ.
+   */
+  private async getOwnDeadJobs(): Promise<Job<unknown>[]> {
+    const deadJobs = (await this.adapter.getDeadJobs?.()) ?? [];
+    return deadJobs.filter((job) => isInQueue(job, this.name));
+  }
+
+  /**
+   * Loads this queue's stored and dead jobs, for adapters that cannot query them.
+   */
+  private async getAllJobs(): Promise<Job<unknown>[]> {
+    const jobs = await this.adapter.getJobs();
+    const ownJobs = jobs.filter((job) => isInQueue(job, this.name));
+    return [...ownJobs, ...(await this.getOwnDeadJobs())];
+  }
+
+  /**
+   * Resets a dead job's attempts and moves it back to the queue.
+   */
+  private async restore(job: Job<unknown>) {
+    this.resetAttempts(job);
+    await this.adapter.restoreDeadJob?.(job);
+  }
+
+  /**
+   * Prepares a failed job to run again right away, as if it had never been attempted.
+   */
+  private resetAttempts(job: Job<unknown>) {
+    job.attempts = 0;
+    job.failed = null;
+    job.runAt = null;
+    job.finishedAt = null;
+    transitionJob(job, 'waiting');
+  }
+
+  /**
+   * Stores a change to a job unless its status changed since it was read,
+   * e.g. because the processor claimed it in between.
+   * Adapters without `updateJobIfStatus` get a check that is not atomic.
+   * @returns True if the change was stored.
+   */
+  private async updateIfStatus(
+    job: Job<unknown>,
+    status: JobStatus
+  ): Promise<boolean> {
+    if (this.adapter.updateJobIfStatus) {
+      return this.adapter.updateJobIfStatus(job, status);
+    }
+    const stored = await this.adapter.getJob(job.id);
+    if (stored?.status !== status) return false;
+    await this.adapter.updateJob(job);
+    return true;
+  }
+
+  /**
+   * Removes a job unless its status changed since it was read.
+   * Adapters without `removeJobIfStatus` get a check that is not atomic.
+   * @returns True if the job was removed.
+   */
+  private async removeIfStatus(
+    job: Job<unknown>,
+    status: JobStatus
+  ): Promise<boolean> {
+    if (this.adapter.removeJobIfStatus) {
+      return this.adapter.removeJobIfStatus(job, status);
+    }
+    const stored = await this.adapter.getJob(job.id);
+    if (stored?.status !== status) return false;
+    await this.adapter.removeJob(job);
+    return true;
+  }
+
+  /**
+   * Throws if the adapter has no dead letter queue.
+   */
+  private assertDLQSupported() {
+    const { moveToDLQ, getDeadJobs, restoreDeadJob, removeDeadJob } =
+      this.adapter;
+    if (!moveToDLQ || !getDeadJobs || !restoreDeadJob || !removeDeadJob) {
+      throw new Error(
+        'The storage adapter does not support the dead letter queue'
+      );
+    }
+  }
+
+  /**
+   * Opens a throttle window for a job, unless one is already open for its key.
+   * @returns The id of the job that opened the still-open window, if any.
+   */
+  private async claimThrottleWindow(
+    job: Job<unknown>,
+    throttle: RateKeyOptions
+  ): Promise<string | void> {
+    if (!this.adapter.claimThrottleWindow) {
+      throw new Error('The storage adapter does not support throttled jobs');
+    }
+    const until = new Date(Date.now() + throttle.ms).toISOString();
+    return this.adapter.claimThrottleWindow(throttle.key, job.id, until);
+  }
 }
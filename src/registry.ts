@@ -1,20 +1,52 @@
 import { Worker } from './worker';
-import type { RegisterWorkerOptions } from './types';
+import { BatchWorker } from './batch-worker';
+import { RateLimiter } from './limiter';
+import type {
+  RateLimiterOptions,
+  RegisterBatchWorkerOptions,
+  RegisterWorkerOptions,
+} from './types';
 
 /**
- * Registry to manage worker implementations.
+ * Registry to manage worker implementations and the rate limiters they share.
  */
 export class JobRegistry {
-  private workers: { [name: string]: Worker<unknown> } = {};
+  private workers: {
+    [name: string]: Worker<unknown> | BatchWorker<unknown>;
+  } = {};
+  private limiters: { [name: string]: RateLimiter };
+
+  /**
+   * Creates a new JobRegistry.
+   * @param limiters - Rate limiters shared with other registries. Defaults to limiters of its own.
+   */
+  constructor(limiters: { [name: string]: RateLimiter } = {}) {
+    this.limiters = limiters;
+  }
 
   /**
    * Registers a worker function to handle a specific job name.
    */
-  addWorker<T = unknown>(params: RegisterWorkerOptions<T>) {
+  addWorker<T = unknown, R = unknown>(params: RegisterWorkerOptions<T, R>) {
     const { name, workerFn, options = {} } = params;
     this.workers[name] = new Worker(name, workerFn, options) as Worker<unknown>;
   }
 
+  /**
+   * Registers a batch worker function to handle several jobs of a name in one call.
+   * Replaces any worker registered for the same name.
+   */
+  addBatchWorker<T = unknown, R = unknown>(
+    params: RegisterBatchWorkerOptions<T, R>
+  ) {
+    const { name, workerFn, options = {} } = params;
+    this.workers[name] = new BatchWorker(
+      name,
+      workerFn,
+      options
+    ) as BatchWorker<unknown>;
+  }
+
   /**
    * Removes a registered worker.
    */
@@ -25,7 +57,7 @@ export class JobRegistry {
   /**
    * Retrieves a worker by name.
    */
-  getWorker(name: string): Worker<unknown> | undefined {
+  getWorker(name: string): Worker<unknown> | BatchWorker<unknown> | undefined {
     return this.workers[name];
   }
 
@@ -35,4 +67,33 @@ export class JobRegistry {
   hasWorker(name: string): boolean {
     return !!this.workers[name];
   }
+
+  /**
+   * Returns the names of all registered workers.
+   */
+  getWorkerNames(): string[] {
+    return Object.keys(this.workers);
+  }
+
+  /**
+   * Registers a rate limiter, replacing any limiter with the same name.
+   */
+  addLimiter(name: string, options: RateLimiterOptions) {
+    this.limiters[name] = new RateLimiter(name, options);
+  }
+
+  /**
+   * Retrieves a rate limiter by name.
+   */
+  getLimiter(name: string): RateLimiter | undefined {
+    return this.limiters[name];
+  }
+
+  /**
+   * Retrieves the rate limiter used by the worker for a job name, if any.
+   */
+  getLimiterForJob(name: string): RateLimiter | undefined {
+    const limiter = this.getWorker(name)?.options.limiter;
+    return limiter ? this.getLimiter(limiter) : undefined;
+  }
 }
@@ -0,0 +1,375 @@
+import type {
+  Adapter,
+  RecurringJob,
+  RecurringOptions,
+  RecurringSchedulerOptions,
+} from './types';
+import { DEFAULT_QUEUE, createJob, omit } from './utils/helpers';
+import { getNextCronTime, parseCron } from './utils/cron';
+
+/** Longest delay accepted by setTimeout; longer waits are split into several timers. */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/** Default cap on the missed occurrences added at once with `catchUp: 'all'`. */
+const DEFAULT_MAX_CATCH_UP = 100;
+
+/**
+ * Creates jobs for recurring definitions when their occurrences are due.
+ * Definitions are stored in the adapter so schedules survive app restarts.
+ */
+export class RecurringScheduler {
+  private status: 'active' | 'inactive' = 'inactive';
+  private startedAt: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  private adapter: Adapter;
+  private queue: string;
+  private onJobsAdded: () => void;
+
+  constructor(options: RecurringSchedulerOptions) {
+    this.adapter = options.adapter;
+    this.queue = options.queue ?? DEFAULT_QUEUE;
+    this.onJobsAdded = options.onJobsAdded;
+  }
+
+  /**
+   * Starts scheduling and creates jobs for occurrences that are already due.
+   * Occurrences due before the first start are handled by each definition's catch-up policy.
+   */
+  async start() {
+    if (this.status === 'inactive') {
+      this.status = 'active';
+      this.startedAt = Date.now();
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Stops scheduling. Jobs already created are left in the queue.
+   */
+  stop() {
+    this.status = 'inactive';
+    this.clearTimer();
+  }
+
+  /**
+   * Adds or updates a recurring definition.
+   * Updating a definition with the same schedule keeps its progress (count and next run).
+   * @returns The id of the definition.
+   */
+  async add<T>(
+    name: string,
+    payload: T,
+    options: RecurringOptions
+  ): Promise<string> {
+    this.assertSupported();
+    const now = Date.now();
+    const definition = this.createDefinition(name, payload, options, now);
+
+    const definitions = (await this.adapter.getRecurringJobs?.()) ?? [];
+    const existing = definitions.find((d) => d.id === definition.id);
+    if (existing && (existing.queue ?? DEFAULT_QUEUE) !== this.queue) {
+      throw new Error(
+        `Recurring job ${definition.id} already belongs to queue ${existing.queue}`
+      );
+    }
+    const sameSchedule =
+      existing &&
+      existing.cron === definition.cron &&
+      existing.every === definition.every &&
+      (options.startAt === undefined ||
+        existing.startAt === definition.startAt);
+
+    if (existing && sameSchedule) {
+      definition.startAt = existing.startAt;
+      definition.count = existing.count;
+      definition.nextRunAt = existing.nextRunAt;
+    } else {
+      const next = this.getNextOccurrence(definition, now - 1);
+      if (next === null) {
+        throw new Error(
+          `Recurring job ${definition.id} has no occurrence before its endAt`
+        );
+      }
+      definition.nextRunAt = new Date(next).toISOString();
+    }
+
+    await this.adapter.saveRecurringJob?.(definition);
+    if (this.status === 'active') {
+      await this.refresh();
+    }
+    return definition.id;
+  }
+
+  /**
+   * Removes a recurring definition so no further occurrences are created.
+   * @returns True if the definition existed.
+   */
+  async remove(id: string): Promise<boolean> {
+    this.assertSupported();
+    const exists = (await this.getAll()).some((d) => d.id === id);
+    if (!exists) return false;
+
+    await this.adapter.removeRecurringJob?.(id);
+    if (this.status === 'active') {
+      await this.refresh();
+    }
+    return true;
+  }
+
+  /**
+   * Returns the stored recurring definitions of this scheduler's queue.
+   */
+  async getAll(): Promise<RecurringJob<unknown>[]> {
+    const definitions = (await this.adapter.getRecurringJobs?.()) ?? [];
+    return definitions.filter((d) => (d.queue ?? DEFAULT_QUEUE) === this.queue);
+  }
+
+  /**
+   * Creates due occurrences and schedules the timer for the next one.
+   * Runs are serialized so an occurrence is never created twice.
+   */
+  private refresh(): Promise<void> {
+    const run = this.pending.then(() => this.run());
+    this.pending = run.catch(() => {});
+    return run;
+  }
+
+  private async run() {
+    if (this.status === 'inactive') return;
+    this.clearTimer();
+
+    const now = Date.now();
+    let added = 0;
+    let nextRunAt = Infinity;
+
+    for (const definition of await this.getAll()) {
+      if (new Date(definition.nextRunAt).getTime() <= now) {
+        added += await this.createOccurrences(definition, now);
+        if (!(await this.advance(definition, now))) continue;
+      }
+      nextRunAt = Math.min(nextRunAt, new Date(definition.nextRunAt).getTime());
+    }
+
+    if ((this.status as string) === 'inactive') return;
+    if (added > 0) {
+      this.onJobsAdded();
+    }
+    if (nextRunAt !== Infinity) {
+      this.scheduleTimer(nextRunAt - Date.now());
+    }
+  }
+
+  /**
+   * Adds a job for each occurrence that should run, according to the catch-up policy.
+   * Occurrence ids are derived from the definition and the scheduled time, so
+   * occurrences added again after a crash, before `nextRunAt` was saved, are ignored.
+   * @returns The number of jobs added.
+   */
+  private async createOccurrences(
+    definition: RecurringJob<unknown>,
+    now: number
+  ): Promise<number> {
+    const runTimes = this.getRunTimes(definition, now);
+
+    for (const runTime of runTimes) {
+      const scheduledAt = new Date(runTime).toISOString();
+      const job = createJob(
+        definition.name,
+        definition.payload,
+        {
+          ...definition.jobOptions,
+          jobId: `${definition.id}:${scheduledAt}`,
+          metaData: {
+            ...definition.jobOptions.metaData,
+            recurringId: definition.id,
+            scheduledAt,
+          },
+        },
+        this.queue
+      );
+      await this.adapter.addJob(job);
+    }
+
+    definition.count += runTimes.length;
+    return runTimes.length;
+  }
+
+  /**
+   * Picks the occurrences between `nextRunAt` and now that should create a job.
+   * Occurrences due before the scheduler started count as missed.
+   */
+  private getRunTimes(definition: RecurringJob<unknown>, now: number) {
+    const first = new Date(definition.nextRunAt).getTime();
+    const remaining =
+      definition.limit === undefined
+        ? Infinity
+        : definition.limit - definition.count;
+    if (remaining <= 0) return [];
+
+    switch (definition.catchUp) {
+      case 'all': {
+        const max = Math.min(
+          remaining,
+          definition.maxCatchUp ?? DEFAULT_MAX_CATCH_UP
+        );
+        const runTimes: number[] = [];
+        let runTime: number | null = first;
+        while (runTime !== null && runTime <= now) {
+          runTimes.push(runTime);
+          if (runTimes.length >= max) break;
+          runTime = this.getNextOccurrence(definition, runTime);
+        }
+        return runTimes;
+      }
+      case 'skip': {
+        const onTime =
+          first >= this.startedAt
+            ? first
+            : this.getNextOccurrence(definition, this.startedAt - 1);
+        return onTime !== null && onTime <= now ? [onTime] : [];
+      }
+      default:
+        return [first];
+    }
+  }
+
+  /**
+   * Moves a definition to its next occurrence, or removes it once it is finished.
+   * @returns False if the definition was removed.
+   */
+  private async advance(
+    definition: RecurringJob<unknown>,
+    now: number
+  ): Promise<boolean> {
+    const next = this.getNextOccurrence(definition, now);
+    const limitReached =
+      definition.limit !== undefined && definition.count >= definition.limit;
+
+    if (next === null || limitReached) {
+      await this.adapter.removeRecurringJob?.(definition.id);
+      return false;
+    }
+
+    definition.nextRunAt = new Date(next).toISOString();
+    await this.adapter.saveRecurringJob?.(definition);
+    return true;
+  }
+
+  /**
+   * Finds the first occurrence strictly after a time, or null if past `endAt`.
+   */
+  private getNextOccurrence(
+    definition: RecurringJob<unknown>,
+    after: number
+  ): number | null {
+    const startAt = new Date(definition.startAt).getTime();
+    let next: number | null;
+
+    if (definition.cron) {
+      next = getNextCronTime(definition.cron, Math.max(after, startAt - 1));
+    } else {
+      const every = definition.every as number;
+      next =
+        after < startAt
+          ? startAt
+          : startAt + (Math.floor((after - startAt) / every) + 1) * every;
+    }
+
+    if (
+      next !== null &&
+      definition.endAt &&
+      next > new Date(definition.endAt).getTime()
+    ) {
+      return null;
+    }
+    return next;
+  }
+
+  /**
+   * Validates options and builds a definition without its next run time.
+   */
+  private createDefinition<T>(
+    name: string,
+    payload: T,
+    options: RecurringOptions,
+    now: number
+  ): RecurringJob<T> {
+    const { cron, every } = options;
+    if ((cron === undefined) === (every === undefined)) {
+      throw new Error('Recurring jobs require exactly one of cron or every');
+    }
+    if (cron !== undefined) {
+      parseCron(cron);
+    }
+    if (every !== undefined && !(every > 0)) {
+      throw new Error('Recurring job interval must be greater than 0');
+    }
+    if (options.maxCatchUp !== undefined && !(options.maxCatchUp >= 1)) {
+      throw new Error('Recurring job maxCatchUp must be at least 1');
+    }
+
+    const defaultStartAt = every !== undefined ? now + every : now;
+
+    return {
+      id: options.id ?? name,
+      name,
+      queue: this.queue,
+      payload,
+      cron,
+      every,
+      limit: options.limit,
+      startAt: new Date(options.startAt ?? defaultStartAt).toISOString(),
+      endAt:
+        options.endAt !== undefined
+          ? new Date(options.endAt).toISOString()
+          : null,
+      catchUp: options.catchUp ?? 'once',
+      maxCatchUp: options.maxCatchUp ?? DEFAULT_MAX_CATCH_UP,
+      jobOptions: omit(options, [
+        'id',
+        'cron',
+        'every',
+        'limit',
+        'startAt',
+        'endAt',
+        'catchUp',
+        'maxCatchUp',
+        'autoStart',
+      ]),
+      count: 0,
+      nextRunAt: '',
+    };
+  }
+
+  /**
+   * Throws if the adapter cannot store recurring definitions.
+   */
+  private assertSupported() {
+    const { saveRecurringJob, getRecurringJobs, removeRecurringJob } =
+      this.adapter;
+    if (!saveRecurringJob || !getRecurringJobs || !removeRecurringJob) {
+      throw new Error('The storage adapter does not support recurring jobs');
+    }
+  }
+
+  private scheduleTimer(delay: number) {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refresh().catch((error) => {
+        console.warn(
+          '[react-native-task-queue] Failed to schedule recurring jobs.',
+          error
+        );
+      });
+    }, Math.min(Math.max(0, delay), MAX_TIMER_DELAY));
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import type EventEmitter from 'eventemitter3';
 import type { JobRegistry } from './registry';
 import type { JobExecutor } from './executor';
+import type { RateLimiter } from './limiter';
 
 /**
  * Represents a job in the queue.
@@ -11,6 +12,8 @@ export interface Job<T = unknown> {
   id: string;
   /** Name of the job, used to match with a worker. */
   name: string;
+  /** Name of the queue the job belongs to. Jobs without one belong to the default queue. */
+  queue?: string;
   /** Data payload for the job. */
   payload: T;
   /** Arbitrary metadata for the job (e.g., attempt counts, custom flags). */
@@ -19,7 +22,9 @@ export interface Job<T = unknown> {
   priority: number;
   /** Number of times the job has been attempted. */
   attempts: number;
-  /** Whether the job is currently being processed. */
+  /** Where the job is in its lifecycle. Only `waiting` and `delayed` jobs can be claimed. */
+  status: JobStatus;
+  /** Whether the job is currently being processed. Kept in sync with `status === 'active'`. */
   active: boolean;
   /** Maximum time in milliseconds the job is allowed to run before timing out. */
   timeout: number;
@@ -27,29 +32,214 @@ export interface Job<T = unknown> {
   created: string;
   /** ISO date string of when the job failed, if applicable. */
   failed?: string | null;
+  /** ISO date string before which the job must not run (delayed jobs). */
+  runAt?: string | null;
   /** Name of the worker that processed this job (optional). */
   workerName?: string;
   /** Maximum number of attempts allowed for this job. Default 1. */
   maxAttempts: number;
-  /** Delay in milliseconds between retry attempts. Default 0. */
+  /** Base delay in milliseconds between retry attempts. Default 0. */
   timeInterval: number;
   /** Time To Live in milliseconds. If (now - created) > ttl, job is discarded. Default 7 days. */
   ttl: number;
   /** Whether this job requires internet connectivity. If true and offline, job is skipped. */
   onlineOnly?: boolean;
+  /** Last progress reported by the worker, kept across retries and restarts. */
+  progress?: JobProgress;
+  /** Ids of jobs that must succeed before this job can run. */
+  dependsOn?: string[];
+  /** What happens to this job when a parent fails for good or is cancelled. Default is 'fail'. */
+  onParentFailure?: ParentFailurePolicy;
+  /** Deduplication key. Null once the job no longer blocks duplicates. */
+  uniqueKey?: string | null;
+  /** While the unique key blocks duplicates. Default is 'waiting'. */
+  uniqueScope?: UniqueScope;
+  /** How the delay before each retry is computed. Defaults to exponential backoff with jitter. */
+  backoff?: BackoffOptions | BackoffStrategy;
+  /** Finished attempts, oldest first, capped by `QueueOptions.maxAttemptHistory`. */
+  attemptHistory?: JobAttempt[];
+  /** ISO date string of when the job completed or failed for good. */
+  finishedAt?: string | null;
+  /** Value returned by the worker, stored when the completed job is retained. */
+  result?: unknown;
+  /** Retention once the job completes. Overrides `QueueOptions.removeOnComplete`. */
+  removeOnComplete?: RetentionPolicy;
+  /** Retention once the job fails for good. Overrides `QueueOptions.removeOnFail`. */
+  removeOnFail?: RetentionPolicy;
+  /** Labels for finding the job with `Queue.getJobs`. */
+  tags?: string[];
 }
 
+/**
+ * How an attempt ended.
+ * - `completed`: the worker succeeded.
+ * - `failed`: the worker threw, using up the attempt.
+ * - `interrupted`: the queue stopped while it ran; the attempt is run again.
+ */
+export type JobAttemptOutcome = 'completed' | 'failed' | 'interrupted';
+
+/**
+ * An attempt recorded in a job's `attemptHistory`.
+ */
+export interface JobAttempt {
+  /** Attempt number, starting at 1. An interrupted attempt shares it with the next one. */
+  attempt: number;
+  /** How the attempt ended. */
+  outcome: JobAttemptOutcome;
+  /** ISO date string of when the attempt started. */
+  startedAt: string;
+  /** ISO date string of when the attempt ended. */
+  finishedAt: string;
+  /** Run time of the attempt in milliseconds. */
+  duration: number;
+  /** The error the attempt failed or was interrupted with. */
+  error?: JobAttemptError;
+}
+
+/**
+ * Serializable copy of an error: its name, message, stack and any custom
+ * enumerable fields (e.g. an HTTP status).
+ */
+export interface JobAttemptError {
+  name: string;
+  message: string;
+  stack?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Built-in backoff strategies, with `delay` as the base delay and `attempts`
+ * as the number of failed attempts so far:
+ * - `fixed`: `delay`.
+ * - `linear`: `delay * attempts`.
+ * - `exponential`: `delay * 2^attempts`.
+ */
+export type BackoffType = 'fixed' | 'linear' | 'exponential';
+
+/**
+ * Computes the delay in milliseconds before the next attempt of a failed job.
+ * @param attempts - Number of failed attempts so far, including the one that just failed.
+ * @param error - The error of the failed attempt.
+ * @param job - The failed job.
+ */
+export type BackoffStrategy = (
+  attempts: number,
+  error: Error,
+  job: Job<unknown>
+) => number;
+
+/**
+ * Serializable backoff configuration, stored with the job.
+ */
+export interface BackoffOptions {
+  /** A built-in strategy or the name of one in the worker's `backoffStrategies`. */
+  type: BackoffType | (string & {});
+  /** Base delay in milliseconds. Defaults to the job's `timeInterval`. */
+  delay?: number;
+  /** Upper bound for the computed delay in milliseconds. */
+  maxDelay?: number;
+  /** Adds a random extra delay between 0 and `delay`. Default is false. */
+  jitter?: boolean;
+}
+
+/**
+ * Lifecycle state of a job.
+ * - `waiting`: ready to run once its parents have finished.
+ * - `delayed`: scheduled for a later `runAt` (delayed job or retry backoff).
+ * - `active`: claimed by the processor and running.
+ * - `completed`: the worker succeeded.
+ * - `failed`: failed for good, with no attempts left.
+ * - `paused`: held back and never claimed until resumed (see `Queue.pauseJobById`).
+ * - `cancelled`: cancelled before it could finish.
+ */
+export type JobStatus =
+  | 'waiting'
+  | 'delayed'
+  | 'active'
+  | 'completed'
+  | 'failed'
+  | 'paused'
+  | 'cancelled';
+
+/**
+ * While a job's `uniqueKey` blocks duplicates.
+ * - `waiting`: until the job starts.
+ * - `active`: until the job finishes, including while it runs.
+ * A job that has failed for good never blocks duplicates.
+ */
+export type UniqueScope = 'waiting' | 'active';
+
+/**
+ * What happens to a dependent job when one of its parents fails for good or is cancelled.
+ * - `fail`: the job fails without running and emits `failed`.
+ * - `remove`: the job is removed and emits `cancelled`.
+ * - `wait`: the job stays blocked while the failed parent remains in the queue or its DLQ.
+ */
+export type ParentFailurePolicy = 'fail' | 'remove' | 'wait';
+
+/**
+ * Progress value reported by a worker: a percentage or any serializable object.
+ */
+export type JobProgress = number | Record<string, unknown>;
+
+/**
+ * Context passed to a worker function alongside the job payload.
+ */
+export interface WorkerContext {
+  /**
+   * Aborted when the job exceeds its timeout.
+   * Pass it to `fetch` or other cancellable APIs to stop in-flight work.
+   */
+  signal: AbortSignal;
+  /**
+   * Stores progress on the job and emits the `progress` event.
+   * @param progress - A number (e.g. percentage) or a serializable object.
+   */
+  reportProgress: (progress: JobProgress) => Promise<void>;
+}
+
+/**
+ * The function executed by a worker for each job.
+ * The resolved value is the job's result, passed to `onSuccess` and the `success` event.
+ * @template T - The type of the job payload.
+ * @template R - The type of the job result.
+ */
+export type WorkerFunction<T = unknown, R = unknown> = (
+  id: string,
+  payload: T,
+  context: WorkerContext
+) => Promise<R>;
+
 /**
  * Options for configuring a Worker.
  * @template T - The type of the job payload.
+ * @template R - The type of the job result.
  */
-export interface WorkerOptions<T = unknown> {
-  /** Number of concurrent jobs this worker can process. Default is 1. */
+export interface WorkerOptions<T = unknown, R = unknown> {
+  /**
+   * Number of concurrent jobs this worker can process.
+   * Defaults to no per-worker limit (bounded only by the queue's global concurrency).
+   */
   concurrency?: number;
+  /**
+   * Name of a rate limiter registered with `Queue.addLimiter`.
+   * Jobs only start while the limiter has tokens; workers sharing a limiter share its budget.
+   */
+  limiter?: string;
+  /**
+   * Named backoff strategies that jobs handled by this worker can select
+   * with `backoff: { type: name }`.
+   */
+  backoffStrategies?: Record<string, BackoffStrategy>;
+  /**
+   * Decides how a failed attempt is handled, e.g. to fail validation errors
+   * right away and retry network errors. Not called for `UnrecoverableError`.
+   */
+  shouldRetry?: (error: Error, job: Job<T>) => RetryDecision;
   /** Callback fired when a job starts. */
   onStart?: (job: Job<T>) => void;
   /** Callback fired when a job completes successfully. */
-  onSuccess?: (job: Job<T>, result: unknown) => void;
+  onSuccess?: (job: Job<T>, result: R) => void;
   /** Callback fired when a job throws an error. */
   onFailure?: (job: Job<T>, error: Error) => void;
   /** Callback fired when a job has failed all retries. */
@@ -58,6 +248,78 @@ export interface WorkerOptions<T = unknown> {
   onComplete?: (job: Job<T>) => void;
 }
 
+/**
+ * Context passed to a batch worker function alongside its jobs.
+ */
+export interface BatchWorkerContext {
+  /**
+   * Aborted when the batch times out, when every job in it is cancelled
+   * or when the queue stops without draining.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Outcome of each job in a batch, in the same order as the jobs passed in.
+ * An `Error` fails that job; any other value is that job's result.
+ * Missing entries count as successful with no result.
+ */
+export type BatchResult<R = unknown> = Array<R | Error>;
+
+/**
+ * The function executed by a batch worker for several jobs with the same name.
+ * Resolving without results marks every job as successful; rejecting fails every job.
+ * @template T - The type of the job payload.
+ * @template R - The type of the job result.
+ */
+export type BatchWorkerFunction<T = unknown, R = unknown> = (
+  jobs: Job<T>[],
+  context: BatchWorkerContext
+) => Promise<BatchResult<R> | void>;
+
+/**
+ * Options for configuring a BatchWorker.
+ * Each batch takes one slot of the queue's concurrency.
+ * @template T - The type of the job payload.
+ */
+export interface BatchWorkerOptions<T = unknown> {
+  /** Maximum number of jobs passed to one call. Default is 10. */
+  maxBatchSize?: number;
+  /**
+   * How long in milliseconds to wait for a batch to fill up before running a smaller one.
+   * Default is 0 (run whatever is available).
+   */
+  maxWaitMs?: number;
+  /** Number of batches this worker can run at once. Defaults to no per-worker limit. */
+  concurrency?: number;
+  /** Name of a rate limiter registered with `Queue.addLimiter`. Each batch takes one token. */
+  limiter?: string;
+  /** Named backoff strategies that jobs of this worker can select with `backoff: { type: name }`. */
+  backoffStrategies?: Record<string, BackoffStrategy>;
+  /** Decides how each failed job of a batch is handled. Not called for `UnrecoverableError`. */
+  shouldRetry?: (error: Error, job: Job<T>) => RetryDecision;
+  /** Callback fired for each job of a batch that has failed all retries. */
+  onFailed?: (job: Job<T>, error: Error) => void;
+}
+
+/**
+ * How a failed attempt is handled, as returned by `WorkerOptions.shouldRetry`:
+ * - `true`: retry after the job's backoff, while attempts remain.
+ * - `false`: fail for good now.
+ * - `{ delay }`: retry after `delay` milliseconds, while attempts remain.
+ */
+export type RetryDecision = boolean | { delay: number };
+
+/**
+ * Options for a token bucket rate limiter.
+ */
+export interface RateLimiterOptions {
+  /** Maximum number of jobs started per `duration`. Also the burst size. */
+  max: number;
+  /** Window in milliseconds over which `max` tokens are refilled. */
+  duration: number;
+}
+
 /**
  * Options for configuring the Queue.
  */
@@ -66,6 +328,132 @@ export interface QueueOptions {
   concurrency?: number;
   /** Whether to monitor network status for onlineOnly jobs. Requires @react-native-community/netinfo. Default is false. */
   monitorNetwork?: boolean;
+  /** Maximum number of attempts kept in each job's `attemptHistory`. Default is 10. */
+  maxAttemptHistory?: number;
+  /** Retention of completed jobs. Default is true (removed right away). */
+  removeOnComplete?: RetentionPolicy;
+  /** Retention of jobs that failed for good. Default is false (kept until purged). */
+  removeOnFail?: RetentionPolicy;
+  /**
+   * Name of the queue. Queues sharing an adapter only see and run their own jobs.
+   * Default is 'default'.
+   */
+  name?: string;
+  /**
+   * Whether starting the queue resets jobs left active by a crash. Default is true.
+   * A function is awaited instead of `adapter.recover`: queues created by a
+   * QueueManager share one recovery that runs before the first of them starts,
+   * so it never resets jobs another queue is running.
+   */
+  recover?: boolean | (() => Promise<void>);
+  /**
+   * Rate limiters by name. Queues given the same object share their limiters,
+   * so a job of any of them takes a token from the same bucket. A QueueManager
+   * passes its own to every queue it creates. Defaults to limiters of this queue only.
+   */
+  limiters?: { [name: string]: RateLimiter };
+}
+
+/**
+ * Limits on how many finished jobs are kept. Jobs beyond either limit are pruned.
+ */
+export interface RetentionOptions {
+  /** Keep at most this many of the most recently finished jobs. */
+  count?: number;
+  /** Keep jobs for at most this many milliseconds after they finished. */
+  age?: number;
+}
+
+/**
+ * Options for Adapter.pruneJobs.
+ */
+export interface PruneJobsOptions extends RetentionOptions {
+  /** Only prune jobs of this queue. Jobs of every queue are pruned when omitted. */
+  queue?: string;
+}
+
+/**
+ * What happens to a finished job.
+ * - `true`: it is removed right away.
+ * - `false`: it is kept until removed manually.
+ * - A number: only the last `count` finished jobs are kept.
+ * - RetentionOptions: jobs are kept up to a count and/or age.
+ */
+export type RetentionPolicy = boolean | number | RetentionOptions;
+
+/**
+ * Options for stopping the Queue.
+ */
+export interface StopOptions {
+  /**
+   * Whether to let running jobs finish before resolving. Default is true.
+   * When false, running jobs are aborted immediately and returned to the queue.
+   */
+  drain?: boolean;
+  /**
+   * Maximum time in milliseconds to wait while draining.
+   * Jobs still running after this deadline are aborted and returned to the queue.
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for purging the dead letter queue.
+ */
+export interface PurgeDeadJobsOptions {
+  /**
+   * Only purge jobs that failed at least this many milliseconds ago.
+   * All dead jobs are purged when omitted.
+   */
+  olderThan?: number;
+}
+
+/**
+ * Sort order of `Queue.getJobs`.
+ */
+export interface JobOrderBy {
+  /** The field to sort by. Jobs without a `runAt` come first in ascending order. */
+  field: 'created' | 'priority' | 'runAt';
+  /** Default is 'asc'. */
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Filters and pagination for `Queue.getJobs`.
+ * Jobs in the dead letter queue are included as `failed` jobs.
+ */
+export interface JobQuery {
+  /** Only jobs with one of these names. */
+  names?: string[];
+  /** Only jobs in one of these states. */
+  states?: JobStatus[];
+  /** Only jobs with at least one of these tags. */
+  tags?: string[];
+  /** Only jobs of this queue. `Queue.getJobs` always sets it to the queue's own name. */
+  queue?: string;
+  /** Maximum number of jobs returned. */
+  limit?: number;
+  /** Number of matching jobs skipped before the first one returned. Default is 0. */
+  offset?: number;
+  /** Sort order. Defaults to claim order: priority descending, then oldest first. */
+  orderBy?: JobOrderBy;
+}
+
+/**
+ * Number of jobs in each state.
+ */
+export type JobStatusCounts = Record<JobStatus, number>;
+
+/**
+ * Number of stored jobs, including the dead letter queue, by state and by job name.
+ */
+export interface JobCounts {
+  /** All stored jobs. */
+  total: number;
+  /** Jobs in each state. */
+  states: JobStatusCounts;
+  /** Jobs of each name, in each state. */
+  names: Record<string, JobStatusCounts>;
 }
 
 /**
@@ -80,18 +468,190 @@ export interface JobOptions {
   attempts?: number;
   /** Alias for attempts (maxAttempts = retries + 1). */
   retries?: number;
-  /** Delay in milliseconds between retry attempts. Default 0. */
+  /** Base delay in milliseconds between retry attempts. Default 0. */
   timeInterval?: number;
+  /**
+   * How the delay before each retry is computed: a built-in strategy, a strategy
+   * with options, or a function. Functions are not persisted, so prefer named
+   * strategies registered on the worker with storage adapters.
+   * Defaults to exponential backoff with jitter based on `timeInterval`.
+   */
+  backoff?: BackoffType | BackoffOptions | BackoffStrategy;
   /** Time To Live in milliseconds. Default 7 days. */
   ttl?: number;
   /** Whether this job requires internet connectivity. */
   onlineOnly?: boolean;
+  /** Delay in milliseconds before the job becomes eligible to run. */
+  delay?: number;
+  /** Date (or epoch milliseconds) at which the job becomes eligible to run. Takes precedence over `delay`. */
+  runAt?: Date | number;
+  /**
+   * Ids of jobs that must succeed before this job can run.
+   * A parent counts as finished once it is no longer in the queue.
+   */
+  dependsOn?: string[];
+  /** What happens to this job when a parent fails for good or is cancelled. Default is 'fail'. */
+  onParentFailure?: ParentFailurePolicy;
+  /**
+   * Custom job id. Adding a job whose id is already in the queue
+   * returns the existing id instead of inserting a duplicate.
+   */
+  jobId?: string;
+  /**
+   * Deduplication key. Adding a job while another job holds the same key
+   * returns that job's id instead of inserting a duplicate.
+   */
+  uniqueKey?: string;
+  /** While the unique key blocks duplicates. Default is 'waiting'. */
+  uniqueScope?: UniqueScope;
+  /**
+   * Debounces enqueues per key: while a job with the same key is waiting,
+   * a new call replaces its payload and pushes its run time back by `ms`.
+   * The key is used as the job's `uniqueKey`.
+   */
+  debounce?: RateKeyOptions;
+  /**
+   * Throttles enqueues per key: at most one job is added per window of `ms`.
+   * Calls inside an open window return the id of the job that opened it.
+   */
+  throttle?: RateKeyOptions;
+  /** Retention once the job completes. Overrides `QueueOptions.removeOnComplete`. */
+  removeOnComplete?: RetentionPolicy;
+  /** Retention once the job fails for good. Overrides `QueueOptions.removeOnFail`. */
+  removeOnFail?: RetentionPolicy;
+  /** Labels for finding the job with `Queue.getJobs`. */
+  tags?: string[];
   /** Whether the queue should start immediately after adding this job. Default is true. */
   autoStart?: boolean;
   /** Arbitrary metadata for the job. */
   metaData?: Record<string, unknown>;
 }
 
+/**
+ * How a recurring job handles occurrences that were due while the queue was not running.
+ * - `once`: run a single job for all missed occurrences.
+ * - `all`: run one job per missed occurrence.
+ * - `skip`: drop missed occurrences and wait for the next one.
+ */
+export type CatchUpPolicy = 'once' | 'all' | 'skip';
+
+/**
+ * Options for adding a recurring job. Exactly one of `cron` or `every` is required.
+ * The remaining job options are applied to every occurrence.
+ */
+export interface RecurringOptions
+  extends Omit<JobOptions, 'delay' | 'runAt' | 'jobId'> {
+  /** Identifier of the definition. Defaults to the job name. Adding the same id again updates it. */
+  id?: string;
+  /** Standard 5-field cron expression, evaluated in local time (e.g. `0 3 * * *`). */
+  cron?: string;
+  /** Fixed interval in milliseconds between occurrences. */
+  every?: number;
+  /** Maximum number of occurrences. The definition is removed once reached. */
+  limit?: number;
+  /** Date (or epoch milliseconds) of the first occurrence. Defaults to one interval from now. */
+  startAt?: Date | number;
+  /** Date (or epoch milliseconds) after which no occurrence is created. */
+  endAt?: Date | number;
+  /** How occurrences missed while the queue was not running are handled. Default is 'once'. */
+  catchUp?: CatchUpPolicy;
+  /**
+   * Most missed occurrences added at once with `catchUp: 'all'`. The oldest ones
+   * are added and the rest are skipped. Default is 100.
+   */
+  maxCatchUp?: number;
+}
+
+/**
+ * A persisted recurring job definition.
+ * @template T - The type of the job payload.
+ */
+export interface RecurringJob<T = unknown> {
+  /** Identifier of the definition. */
+  id: string;
+  /** Name of the jobs created for each occurrence. */
+  name: string;
+  /** Queue the occurrences are added to. Definitions without one belong to the default queue. */
+  queue?: string;
+  /** Payload of the jobs created for each occurrence. */
+  payload: T;
+  /** Cron expression, if scheduled by cron. */
+  cron?: string;
+  /** Interval in milliseconds, if scheduled by interval. */
+  every?: number;
+  /** Maximum number of occurrences, if limited. */
+  limit?: number;
+  /** ISO date string the schedule is anchored to. */
+  startAt: string;
+  /** ISO date string after which no occurrence is created. */
+  endAt?: string | null;
+  /** How missed occurrences are handled. */
+  catchUp: CatchUpPolicy;
+  /** Most missed occurrences added at once with `catchUp: 'all'`. Definitions stored without one use 100. */
+  maxCatchUp?: number;
+  /** Job options applied to every occurrence. */
+  jobOptions: JobOptions;
+  /** Number of occurrences created so far. */
+  count: number;
+  /** ISO date string of the next occurrence. */
+  nextRunAt: string;
+}
+
+/**
+ * Key and window used to debounce or throttle enqueues.
+ */
+export interface RateKeyOptions {
+  /** Calls sharing this key are debounced or throttled together. */
+  key: string;
+  /** Window length in milliseconds. */
+  ms: number;
+}
+
+/**
+ * Options for Adapter.addJob.
+ */
+export interface AddJobOptions {
+  /**
+   * When the job's `uniqueKey` is held by a waiting job, update that job's
+   * payload and `runAt` instead of ignoring the new job.
+   */
+  replace?: boolean;
+}
+
+/**
+ * A job and how a duplicate is handled, for Adapter.addJobs.
+ */
+export interface AddJobEntry<T = unknown> {
+  /** The job to add. */
+  job: Job<T>;
+  /** How a duplicate unique key is handled. */
+  options?: AddJobOptions;
+}
+
+/**
+ * Changes to a job's data for `Queue.updatePayload`.
+ * @template T - The type of the job payload.
+ */
+export interface JobUpdate<T = unknown> {
+  /** Replaces the payload. */
+  payload?: T;
+  /** Merged into the existing metadata. */
+  metaData?: Record<string, unknown>;
+}
+
+/**
+ * A job to add with `Queue.addJobs`.
+ * @template T - The type of the job payload.
+ */
+export interface BulkJob<T = unknown> {
+  /** The name of the job. Must match a registered worker to be processed. */
+  name: string;
+  /** The data required for the job. */
+  payload?: T;
+  /** Job-specific options. `throttle` is not supported in bulk. */
+  options?: JobOptions;
+}
+
 /**
  * Events emitted by the Queue.
  * @template T - The type of the job payload.
@@ -99,12 +659,30 @@ export interface JobOptions {
 export interface QueueEvents<T = unknown> {
   /** Fired when a job execution starts. */
   start: [job: Job<T>];
+  /** Fired when a worker reports progress for a job. */
+  progress: [job: Job<T>, progress: JobProgress];
   /** Fired when a job completes successfully. */
   success: [job: Job<T>, result?: unknown];
   /** Fired when a job fails (might be retried). */
   failure: [job: Job<T>, error: Error];
-  /** Fired when a job has exhausted all retries. */
+  /** Fired when a job has exhausted all retries, or expired (`ttl`) before it could run. */
   failed: [job: Job<T>, error: Error];
+  /** Fired when a job is cancelled, whether it was waiting or running. */
+  cancelled: [job: Job<T>];
+  /** Fired when processing fails outside a worker, e.g. a storage write of a running job. */
+  error: [error: Error];
+}
+
+/**
+ * Filters for Adapter.getConcurrentJobs.
+ */
+export interface ConcurrentJobsOptions {
+  /** Job names that must not be claimed (e.g. paused or at their worker's concurrency limit). */
+  excludeNames?: string[];
+  /** When set, only jobs with one of these names are claimed (e.g. to fill a batch). */
+  names?: string[];
+  /** When set, only jobs of this queue are claimed. */
+  queue?: string;
 }
 
 /**
@@ -114,15 +692,45 @@ export interface QueueEvents<T = unknown> {
 export interface Adapter {
   /**
    * Add a new job to the storage.
+   * A job whose id is already stored, or whose `uniqueKey` is held by a stored job, is not inserted.
    * @param job - The job to add.
+   * @param options - How a duplicate unique key is handled.
+   * @returns The id of the existing job when the job is a duplicate.
    */
 
-  addJob<T = unknown>(job: Job<T>): Promise<void>;
+  addJob<T = unknown>(
+    job: Job<T>,
+    options?: AddJobOptions
+  ): Promise<string | void>;
+
+  /**
+   * Optional: Add several jobs at once, all or nothing.
+   * Each job is handled like in `addJob`, in order, so a job may also be a
+   * duplicate of one added earlier in the same call.
+   * @param entries - The jobs to add, with how a duplicate is handled.
+   * @returns For each job, the id of the existing job when it is a duplicate.
+   */
+  addJobs?(entries: AddJobEntry<unknown>[]): Promise<Array<string | void>>;
 
   /**
    * Retrieve a batch of jobs to process concurrently.
+   * Only idle jobs that are due (no `runAt`, or `runAt` in the past) are returned.
+   * Jobs with a `dependsOn` parent still in storage (and not completed) or in the DLQ must be skipped.
+   * Returned jobs must be claimed (marked active) atomically.
+   * @param limit - Maximum number of jobs to claim.
+   * @param options - Filters applied before claiming.
+   */
+  getConcurrentJobs(
+    limit?: number,
+    options?: ConcurrentJobsOptions
+  ): Promise<Job<unknown>[]>;
+
+  /**
+   * Optional: Return the earliest `runAt` among idle jobs that are not due yet.
+   * Lets the processor sleep until the next delayed job instead of polling.
+   * @param queue - Only consider jobs of this queue. Every job is considered when omitted.
    */
-  getConcurrentJobs(limit?: number): Promise<Job<unknown>[]>;
+  getNextRunAt?(queue?: string): Promise<string | null>;
 
   /**
    * Update an existing job in the storage.
@@ -136,6 +744,31 @@ export interface Adapter {
    */
   removeJob<T = unknown>(job: Job<T>): Promise<void>;
 
+  /**
+   * Optional: Update a job only if its stored status is still `status`,
+   * atomically with respect to `getConcurrentJobs`.
+   * Lets the queue change a job without racing the processor claiming it.
+   * @param job - The job with updated properties.
+   * @param status - The status the stored job must have.
+   * @returns True if the job was updated.
+   */
+  updateJobIfStatus?<T = unknown>(
+    job: Job<T>,
+    status: JobStatus
+  ): Promise<boolean>;
+
+  /**
+   * Optional: Remove a job only if its stored status is still `status`,
+   * atomically with respect to `getConcurrentJobs`.
+   * @param job - The job to remove.
+   * @param status - The status the stored job must have.
+   * @returns True if the job was removed.
+   */
+  removeJobIfStatus?<T = unknown>(
+    job: Job<T>,
+    status: JobStatus
+  ): Promise<boolean>;
+
   /**
    * Retrieve a specific job by ID.
    * @param id - The UUID of the job.
@@ -147,13 +780,89 @@ export interface Adapter {
    */
   getJobs(): Promise<Job<unknown>[]>;
 
+  /**
+   * Optional: Retrieve the jobs matching a query, dead jobs included.
+   * Lets the queue filter and paginate without loading every job.
+   * @param query - Filters, sort order and page.
+   */
+  queryJobs?(query: JobQuery): Promise<Job<unknown>[]>;
+
+  /**
+   * Optional: Count jobs by state and name, dead jobs included.
+   * @param queue - Only count jobs of this queue. Every job is counted when omitted.
+   */
+  getJobCounts?(queue?: string): Promise<JobCounts>;
+
   /**
    * Optional: Move a job to the Dead Letter Queue.
-   * Fired when a job exceeds maxAttempts.
+   * Fired when a job exceeds maxAttempts. The job leaves the main storage,
+   * but still counts as a pending parent for its dependents.
    * @param job - The job to move to DLQ.
    */
   moveToDLQ?<T = unknown>(job: Job<T>): Promise<void>;
 
+  /**
+   * Optional: Retrieve all jobs in the Dead Letter Queue.
+   * Required for the `Queue` DLQ methods.
+   */
+  getDeadJobs?(): Promise<Job<unknown>[]>;
+
+  /**
+   * Optional: Move a job from the Dead Letter Queue back to the main storage.
+   * @param job - The dead job, already reset for another run.
+   */
+  restoreDeadJob?<T = unknown>(job: Job<T>): Promise<void>;
+
+  /**
+   * Optional: Delete a job from the Dead Letter Queue.
+   * @param id - The UUID of the job.
+   */
+  removeDeadJob?(id: string): Promise<void>;
+
+  /**
+   * Optional: Delete finished jobs beyond a retention limit, oldest first.
+   * Completed jobs are kept in the main storage; failed jobs in the DLQ, if any.
+   * Required for count and age limits of `removeOnComplete` / `removeOnFail`.
+   * @param status - Whether to prune completed or failed jobs.
+   * @param options - The limits to apply, and the queue they apply to.
+   */
+  pruneJobs?(
+    status: 'completed' | 'failed',
+    options: PruneJobsOptions
+  ): Promise<void>;
+
+  /**
+   * Optional: Insert or replace a recurring job definition.
+   * Required for `Queue.addRecurring`.
+   * @param definition - The definition to store.
+   */
+  saveRecurringJob?<T = unknown>(definition: RecurringJob<T>): Promise<void>;
+
+  /**
+   * Optional: Retrieve all recurring job definitions.
+   */
+  getRecurringJobs?(): Promise<RecurringJob<unknown>[]>;
+
+  /**
+   * Optional: Remove a recurring job definition.
+   * @param id - The id of the definition.
+   */
+  removeRecurringJob?(id: string): Promise<void>;
+
+  /**
+   * Optional: Claim a throttle window for a key, unless its current window is still open.
+   * Required for the `throttle` job option.
+   * @param key - The throttle key.
+   * @param jobId - The job that opens the window.
+   * @param until - ISO date string at which the window closes.
+   * @returns The id of the job that opened the still-open window, or nothing if claimed.
+   */
+  claimThrottleWindow?(
+    key: string,
+    jobId: string,
+    until: string
+  ): Promise<string | void>;
+
   /**
    * Delete all jobs from the storage.
    */
@@ -176,6 +885,8 @@ export interface JobRow {
   id: string;
   /** The job name/type. */
   name: string;
+  /** The queue the job belongs to. */
+  queue: string;
   /** The job payload (serialized JSON). */
   payload: string;
   /** Additional metadata (attempts, settings) (serialized JSON). */
@@ -184,12 +895,18 @@ export interface JobRow {
   priority: number;
   /** Active status (0 or 1). */
   active: number;
+  /** Lifecycle state, see JobStatus. */
+  status: string | null;
   /** Timeout in milliseconds. */
   timeout: number;
   /** Creation timestamp (ISO string). */
   created: string;
   /** Failure timestamp (ISO string) or null. */
   failed: string | null;
+  /** Earliest run timestamp (ISO string) or null. */
+  runAt: string | null;
+  /** Deduplication key while the job holds it, otherwise null. */
+  uniqueKey: string | null;
 }
 
 /**
@@ -201,6 +918,21 @@ export interface JobProcessorOptions {
   executor: JobExecutor;
   concurrency?: number;
   monitorNetwork?: boolean;
+  /** Only jobs of this queue are claimed. */
+  queue?: string;
+  /** Receives `error` events for failures outside a worker. */
+  emitter?: EventEmitter;
+}
+
+/**
+ * Options for the RecurringScheduler constructor.
+ */
+export interface RecurringSchedulerOptions {
+  adapter: Adapter;
+  /** Only definitions of this queue are scheduled, and new ones belong to it. */
+  queue?: string;
+  /** Called after occurrences were added to the queue. */
+  onJobsAdded: () => void;
 }
 
 /**
@@ -209,13 +941,29 @@ export interface JobProcessorOptions {
 export interface JobExecutorOptions {
   adapter: Adapter;
   emitter: EventEmitter;
+  registry?: JobRegistry;
+  /** Maximum number of failed attempts kept per job. Default is 10. */
+  maxAttemptHistory?: number;
+  /** Retention of completed jobs. Default is true. */
+  removeOnComplete?: RetentionPolicy;
+  /** Retention of jobs that failed for good. Default is false. */
+  removeOnFail?: RetentionPolicy;
 }
 
 /**
  * Options for registering a worker in the JobRegistry.
  */
-export interface RegisterWorkerOptions<T = unknown> {
+export interface RegisterWorkerOptions<T = unknown, R = unknown> {
+  name: string;
+  options?: WorkerOptions<T, R>;
+  workerFn: WorkerFunction<T, R>;
+}
+
+/**
+ * Options for registering a batch worker in the JobRegistry.
+ */
+export interface RegisterBatchWorkerOptions<T = unknown, R = unknown> {
   name: string;
-  options?: WorkerOptions<T>;
-  workerFn: (id: string, payload: T) => Promise<void>;
+  options?: BatchWorkerOptions<T>;
+  workerFn: BatchWorkerFunction<T, R>;
 }
@@ -0,0 +1,58 @@
+import { getNextCronTime, parseCron } from '../cron';
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should expand wildcards, ranges, steps and lists', () => {
+      const schedule = parseCron('*/15 9-11 1,15 * 1-5');
+      expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+      expect(Array.from(schedule.hours)).toEqual([9, 10, 11]);
+      expect(Array.from(schedule.daysOfMonth)).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect(Array.from(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect(Array.from(parseCron('0 0 * * 7').daysOfWeek)).toEqual([0]);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow('Invalid cron expression');
+      expect(() => parseCron('60 * * * *')).toThrow('Invalid cron expression');
+      expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron expression');
+      expect(() => parseCron('a * * * *')).toThrow('Invalid cron expression');
+    });
+  });
+
+  describe('getNextCronTime', () => {
+    const at = (...args: [number, number, number, number, number]) =>
+      new Date(...args).getTime();
+
+    it('should return the next matching minute after the given time', () => {
+      const after = at(2030, 0, 1, 10, 7);
+      expect(getNextCronTime('*/15 * * * *', after)).toBe(
+        at(2030, 0, 1, 10, 15)
+      );
+      expect(getNextCronTime('0 3 * * *', after)).toBe(at(2030, 0, 2, 3, 0));
+    });
+
+    it('should be strictly after the given time', () => {
+      const after = at(2030, 0, 1, 3, 0);
+      expect(getNextCronTime('0 3 * * *', after)).toBe(at(2030, 0, 2, 3, 0));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 2030-01-01 is a Tuesday; next Friday is the 4th
+      const after = at(2030, 0, 1, 12, 0);
+      expect(getNextCronTime('0 0 15 * 5', after)).toBe(at(2030, 0, 4, 0, 0));
+    });
+
+    it('should cross month and year boundaries', () => {
+      const after = at(2030, 11, 31, 23, 59);
+      expect(getNextCronTime('0 0 29 2 *', after)).toBe(at(2032, 1, 29, 0, 0));
+    });
+
+    it('should return null when the expression never matches', () => {
+      expect(getNextCronTime('0 0 31 2 *', Date.now())).toBeNull();
+    });
+  });
+});
@@ -1,12 +1,31 @@
 import {
+  isJobDue,
+  isJobReady,
+  isInQueue,
+  resolveJobStatus,
+  hasPendingParents,
+  findDuplicateJob,
+  releaseUniqueKey,
+  replaceDuplicateJob,
   isJobExpired,
+  findNextRunAt,
+  resolveRetention,
+  findPrunableJobs,
+  filterJobs,
+  countJobs,
   calculateRetryDelay,
+  calculateBackoffDelay,
   shouldSkipByBackoff,
   prepareJobFailure,
+  serializeError,
+  recordAttempt,
   createJob,
   pick,
   omit,
+  transitionJob,
 } from '../helpers';
+import { JobInterruptedError, JobStatusError } from '../../errors';
+import type { Job } from '../../types';
 
 describe('Helpers', () => {
   describe('isJobExpired', () => {
@@ -30,6 +49,253 @@ describe('Helpers', () => {
     });
   });
 
+  describe('isJobDue', () => {
+    it('should be due when runAt is not set', () => {
+      expect(isJobDue(createJob('test', {}))).toBe(true);
+    });
+
+    it('should respect runAt', () => {
+      const job = createJob('test', {}, { delay: 1000 });
+      expect(isJobDue(job)).toBe(false);
+      expect(isJobDue(job, Date.now() + 1000)).toBe(true);
+    });
+  });
+
+  describe('transitionJob', () => {
+    it('should move a job to an allowed status and sync active', () => {
+      const job = createJob('test', {});
+      expect(job.status).toBe('waiting');
+
+      transitionJob(job, 'active');
+      expect(job.active).toBe(true);
+
+      transitionJob(job, 'completed');
+      expect(job.status).toBe('completed');
+      expect(job.active).toBe(false);
+    });
+
+    it('should reject a transition the current status cannot lead to', () => {
+      const job = createJob('test', {});
+      transitionJob(job, 'active');
+      transitionJob(job, 'completed');
+
+      expect(() => transitionJob(job, 'active')).toThrow(JobStatusError);
+      expect(job.status).toBe('completed');
+    });
+  });
+
+  describe('resolveJobStatus', () => {
+    it('should derive the status of jobs stored without one', () => {
+      const legacy = (job: Job<unknown>) =>
+        ({ ...job, status: undefined } as unknown as Job<unknown>);
+      const job = createJob('test', {});
+      const delayed = createJob('test', {}, { delay: 1000 });
+
+      expect(resolveJobStatus(legacy(job))).toBe('waiting');
+      expect(resolveJobStatus(legacy(delayed))).toBe('delayed');
+      expect(resolveJobStatus(legacy({ ...job, active: true }))).toBe('active');
+      expect(resolveJobStatus(legacy({ ...job, attempts: 1 }))).toBe('failed');
+    });
+  });
+
+  describe('isJobReady', () => {
+    it('should only accept waiting or delayed jobs that are due', () => {
+      const job = createJob('test', {});
+      const delayed = createJob('test', {}, { delay: 1000 });
+      expect(delayed.status).toBe('delayed');
+
+      expect(isJobReady(job)).toBe(true);
+      expect(isJobReady(delayed)).toBe(false);
+      expect(isJobReady(delayed, Date.now() + 1000)).toBe(true);
+
+      transitionJob(delayed, 'paused');
+      expect(isJobReady(delayed, Date.now() + 1000)).toBe(false);
+      transitionJob(job, 'cancelled');
+      expect(isJobReady(job)).toBe(false);
+    });
+  });
+
+  describe('isInQueue', () => {
+    it('should treat jobs without a queue as default jobs', () => {
+      const job = createJob('test', {}, {}, 'uploads');
+      const legacy: Job<unknown> = {
+        ...createJob('test', {}),
+        queue: undefined,
+      };
+
+      expect(isInQueue(job, 'uploads')).toBe(true);
+      expect(isInQueue(job, 'default')).toBe(false);
+      expect(isInQueue(legacy, 'default')).toBe(true);
+      expect(isInQueue(job)).toBe(true);
+    });
+  });
+
+  describe('hasPendingParents', () => {
+    it('should report parents that are still stored', () => {
+      const job = createJob('test', {}, { dependsOn: ['a', 'b'] });
+      expect(hasPendingParents(job, new Set(['b']))).toBe(true);
+      expect(hasPendingParents(job, new Set(['c']))).toBe(false);
+      expect(hasPendingParents(createJob('test', {}), new Set(['a']))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('findDuplicateJob', () => {
+    it('should match the same id or a held unique key', () => {
+      const stored = createJob('sync', {}, { uniqueKey: 'sync' });
+      expect(findDuplicateJob(createJob('sync', {}), [stored])).toBeUndefined();
+      expect(
+        findDuplicateJob(createJob('sync', {}, { jobId: stored.id }), [stored])
+      ).toBe(stored);
+      expect(
+        findDuplicateJob(createJob('sync', {}, { uniqueKey: 'sync' }), [stored])
+      ).toBe(stored);
+    });
+  });
+
+  describe('releaseUniqueKey', () => {
+    it('should release a waiting-scoped key when the job starts', () => {
+      const job = createJob('sync', {}, { uniqueKey: 'sync' });
+      releaseUniqueKey(job);
+      expect(job.uniqueKey).toBe('sync');
+
+      transitionJob(job, 'active');
+      releaseUniqueKey(job);
+      expect(job.uniqueKey).toBeNull();
+    });
+
+    it('should keep an active-scoped key until the job fails for good', () => {
+      const job = createJob(
+        'sync',
+        {},
+        { uniqueKey: 'sync', uniqueScope: 'active' }
+      );
+      transitionJob(job, 'active');
+      releaseUniqueKey(job);
+      expect(job.uniqueKey).toBe('sync');
+
+      transitionJob(job, 'failed');
+      job.attempts = job.maxAttempts;
+      releaseUniqueKey(job);
+      expect(job.uniqueKey).toBeNull();
+    });
+  });
+
+  describe('replaceDuplicateJob', () => {
+    it('should only update a waiting job holding the same key', () => {
+      const stored = createJob('save', { text: 'a' }, { uniqueKey: 'draft' });
+      const update = createJob(
+        'save',
+        { text: 'ab' },
+        { uniqueKey: 'draft', delay: 1000 }
+      );
+
+      expect(replaceDuplicateJob(stored, update)).toBe(true);
+      expect(stored.payload).toEqual({ text: 'ab' });
+      expect(stored.runAt).toBe(update.runAt);
+
+      transitionJob(stored, 'active');
+      expect(replaceDuplicateJob(stored, createJob('save', {}))).toBe(false);
+    });
+  });
+
+  describe('findNextRunAt', () => {
+    it('should return the earliest future runAt of idle jobs', () => {
+      const later = createJob('test', {}, { delay: 5000 });
+      const sooner = createJob('test', {}, { delay: 1000 });
+      const active = createJob('test', {}, { delay: 500 });
+      transitionJob(active, 'active');
+      const due = createJob('test', {});
+
+      expect(findNextRunAt([later, sooner, active, due])).toBe(sooner.runAt);
+      expect(findNextRunAt([due])).toBeNull();
+    });
+  });
+
+  describe('resolveRetention', () => {
+    it('should map every policy form to retention limits', () => {
+      expect(resolveRetention(true)).toBeNull();
+      expect(resolveRetention(false)).toEqual({});
+      expect(resolveRetention(10)).toEqual({ count: 10 });
+      expect(resolveRetention({ age: 1000 })).toEqual({ age: 1000 });
+    });
+  });
+
+  describe('findPrunableJobs', () => {
+    const finishedJob = (id: string, finishedAt: number) => ({
+      ...createJob('test', {}),
+      id,
+      finishedAt: new Date(finishedAt).toISOString(),
+    });
+
+    it('should keep the most recently finished jobs up to count', () => {
+      const now = Date.now();
+      const jobs = [
+        finishedJob('old', now - 3000),
+        finishedJob('new', now - 1000),
+        finishedJob('mid', now - 2000),
+      ];
+
+      const ids = (prunable: Job<unknown>[]) => prunable.map((job) => job.id);
+      expect(ids(findPrunableJobs(jobs, { count: 2 }, now))).toEqual(['old']);
+      expect(ids(findPrunableJobs(jobs, { age: 1500 }, now))).toEqual([
+        'mid',
+        'old',
+      ]);
+      expect(findPrunableJobs(jobs, {}, now)).toEqual([]);
+    });
+
+    it('should only count jobs of the given queue', () => {
+      const now = Date.now();
+      const jobs = [
+        finishedJob('old', now - 3000),
+        { ...finishedJob('other', now - 2000), queue: 'telemetry' },
+        finishedJob('new', now - 1000),
+      ];
+
+      const prunable = findPrunableJobs(
+        jobs,
+        { count: 1, queue: 'default' },
+        now
+      );
+      expect(prunable.map((job) => job.id)).toEqual(['old']);
+    });
+  });
+
+  describe('filterJobs', () => {
+    it('should filter, sort and page jobs', () => {
+      const low = createJob('upload', {}, { tags: ['photos'] });
+      const high = createJob('upload', {}, { priority: 5 });
+      const other = createJob('sync', {}, { tags: ['photos'] });
+      const jobs = [low, high, other];
+
+      expect(filterJobs(jobs, {})).toEqual([high, low, other]);
+      expect(filterJobs(jobs, { names: ['upload'], limit: 1 })).toEqual([high]);
+      expect(filterJobs(jobs, { tags: ['photos'], offset: 1 })).toEqual([
+        other,
+      ]);
+      expect(
+        filterJobs(jobs, { orderBy: { field: 'priority', direction: 'desc' } })
+      ).toEqual([high, low, other]);
+      expect(filterJobs(jobs, { states: ['active'] })).toEqual([]);
+    });
+  });
+
+  describe('countJobs', () => {
+    it('should count jobs and groups by state and name', () => {
+      const counts = countJobs([
+        createJob('upload', {}),
+        { name: 'upload', status: 'failed', count: 3 },
+      ]);
+
+      expect(counts.total).toBe(4);
+      expect(counts.states.waiting).toBe(1);
+      expect(counts.states.completed).toBe(0);
+      expect(counts.names.upload).toMatchObject({ waiting: 1, failed: 3 });
+    });
+  });
+
   describe('calculateRetryDelay', () => {
     it('should calculate exponential delay with jitter', () => {
       const job = createJob('test', {});
@@ -45,6 +311,81 @@ describe('Helpers', () => {
     });
   });
 
+  describe('calculateBackoffDelay', () => {
+    const error = new Error('Failed');
+    const failedJob = (options: Parameters<typeof createJob>[2]) => {
+      const job = createJob('test', {}, options);
+      job.attempts = 3;
+      return job;
+    };
+
+    it('should compute the built-in strategies', () => {
+      const options = { timeInterval: 1000 };
+      expect(
+        calculateBackoffDelay(
+          failedJob({ ...options, backoff: 'fixed' }),
+          error
+        )
+      ).toBe(1000);
+      expect(
+        calculateBackoffDelay(
+          failedJob({ ...options, backoff: 'linear' }),
+          error
+        )
+      ).toBe(3000);
+      expect(
+        calculateBackoffDelay(
+          failedJob({ ...options, backoff: 'exponential' }),
+          error
+        )
+      ).toBe(8000);
+    });
+
+    it('should apply the delay and maxDelay options', () => {
+      const job = failedJob({
+        backoff: { type: 'exponential', delay: 500, maxDelay: 3000 },
+      });
+      expect(calculateBackoffDelay(job, error)).toBe(3000);
+    });
+
+    it('should add jitter up to the base delay', () => {
+      const job = failedJob({
+        backoff: { type: 'fixed', delay: 1000, jitter: true },
+      });
+      const delay = calculateBackoffDelay(job, error);
+      expect(delay).toBeGreaterThanOrEqual(1000);
+      expect(delay).toBeLessThanOrEqual(2000);
+    });
+
+    it('should call custom and named strategies', () => {
+      const custom = jest.fn().mockReturnValue(1234);
+      const job = failedJob({ backoff: custom });
+      expect(calculateBackoffDelay(job, error)).toBe(1234);
+      expect(custom).toHaveBeenCalledWith(3, error, job);
+
+      const named = failedJob({
+        backoff: { type: 'server', maxDelay: 5000 },
+      });
+      const server = jest.fn().mockReturnValue(10000);
+      expect(calculateBackoffDelay(named, error, { server })).toBe(5000);
+      expect(server).toHaveBeenCalledWith(3, error, named);
+    });
+
+    it('should fall back to the default for unknown strategies', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const job = failedJob({
+        timeInterval: 1000,
+        backoff: { type: 'missing' },
+      });
+
+      const delay = calculateBackoffDelay(job, error);
+      expect(delay).toBeGreaterThanOrEqual(8000);
+      expect(delay).toBeLessThanOrEqual(9000);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
   describe('shouldSkipByBackoff', () => {
     it('should not skip if job never failed', () => {
       const job = createJob('test', {});
@@ -86,13 +427,28 @@ describe('Helpers', () => {
       const result = shouldSkipByBackoff(job);
       expect(result.shouldSkip).toBe(false);
     });
+
+    it('should leave jobs with a stored next attempt time to runAt', () => {
+      const now = Date.now();
+      const job = createJob('test', {});
+      job.failed = new Date(now - 1000).toISOString();
+      job.runAt = new Date(now + 500).toISOString();
+      job.attempts = 1;
+      job.maxAttempts = 3;
+      job.timeInterval = 10000;
+
+      expect(shouldSkipByBackoff(job)).toEqual({
+        shouldSkip: false,
+        remaining: 0,
+      });
+    });
   });
 
   describe('prepareJobFailure', () => {
     it('should update job on failure', () => {
       const job = createJob('test', {});
       job.attempts = 1;
-      job.active = true;
+      transitionJob(job, 'active');
       job.metaData = { existing: 'data' };
       const error = new Error('Test Error');
 
@@ -108,6 +464,58 @@ describe('Helpers', () => {
     });
   });
 
+  describe('serializeError', () => {
+    it('should copy the name, message, stack and custom fields', () => {
+      const error = Object.assign(new Error('Bad request'), { status: 400 });
+      error.name = 'HttpError';
+
+      expect(serializeError(error)).toEqual({
+        name: 'HttpError',
+        message: 'Bad request',
+        stack: error.stack,
+        status: 400,
+      });
+    });
+  });
+
+  describe('recordAttempt', () => {
+    it('should append attempts and keep only the most recent ones', () => {
+      const job = createJob('test', {});
+      const startedAt = Date.now() - 250;
+
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        job.attempts = attempt;
+        recordAttempt(job, new Error(`Failure ${attempt}`), startedAt, 2);
+      }
+
+      expect(job.attemptHistory).toHaveLength(2);
+      expect(job.attemptHistory?.map((a) => a.attempt)).toEqual([2, 3]);
+      const [, last] = job.attemptHistory ?? [];
+      expect(last?.outcome).toBe('failed');
+      expect(last?.error?.message).toBe('Failure 3');
+      expect(last?.startedAt).toBe(new Date(startedAt).toISOString());
+      expect(last?.duration).toBeGreaterThanOrEqual(250);
+    });
+
+    it('should number completed and interrupted attempts after the failed ones', () => {
+      const job = createJob('test', {});
+      job.attempts = 1;
+
+      recordAttempt(job, new JobInterruptedError(job.id), Date.now(), 10);
+      recordAttempt(job, null, Date.now(), 10);
+
+      expect(job.attemptHistory).toEqual([
+        expect.objectContaining({
+          attempt: 2,
+          outcome: 'interrupted',
+          error: expect.objectContaining({ name: 'JobInterruptedError' }),
+        }),
+        expect.objectContaining({ attempt: 2, outcome: 'completed' }),
+      ]);
+      expect(job.attemptHistory?.[1]).not.toHaveProperty('error');
+    });
+  });
+
   describe('createJob', () => {
     it('should create job with defaults', () => {
       const job = createJob('test', { foo: 'bar' });
@@ -136,6 +544,21 @@ describe('Helpers', () => {
       expect(job.onlineOnly).toBe(true);
     });
 
+    it('should schedule delayed jobs', () => {
+      const runAt = new Date('2030-01-01T09:00:00.000Z');
+      expect(createJob('test', {}, { runAt }).runAt).toBe(runAt.toISOString());
+      expect(createJob('test', {}, { runAt: runAt.getTime() }).runAt).toBe(
+        runAt.toISOString()
+      );
+
+      const before = Date.now();
+      const delayed = createJob('test', {}, { delay: 10000 });
+      expect(new Date(delayed.runAt!).getTime()).toBeGreaterThanOrEqual(
+        before + 10000
+      );
+      expect(createJob('test', {}).runAt).toBeNull();
+    });
+
     it('should use retries alias', () => {
       const job = createJob('test', {}, { retries: 2 });
       expect(job.maxAttempts).toBe(3);
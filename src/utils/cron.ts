@@ -0,0 +1,151 @@
+/**
+ * A parsed cron expression: the allowed values of each field.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month field was restricted (not `*`). */
+  restrictedDayOfMonth: boolean;
+  /** Whether the day-of-week field was restricted (not `*`). */
+  restrictedDayOfWeek: boolean;
+}
+
+/** Upper bound on search steps, enough to reach rare matches such as 29 February. */
+const MAX_ITERATIONS = 100000;
+
+/**
+ * Parses a single cron field such as `*`, `5`, `1-5`, `*\/15` or `1,15,30`.
+ */
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron expression: "${expression}"`);
+    }
+
+    const [, range, from, to, stepText] = match;
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      start = Number(from);
+      // A single value with a step (`5/15`) runs from that value to the maximum
+      end =
+        to !== undefined ? Number(to) : stepText !== undefined ? max : start;
+    }
+
+    if (step <= 0 || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron expression: "${expression}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a standard 5-field cron expression
+ * (minute, hour, day of month, month, day of week).
+ * Supports `*`, numbers, ranges (`1-5`), steps (`*\/15`) and lists (`1,15`).
+ * Day of week accepts 0-7, where both 0 and 7 mean Sunday.
+ * @param expression - The cron expression.
+ * @throws If the expression is malformed.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression: "${expression}"`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string
+  ];
+
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, expression);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59, expression),
+    hours: parseField(hour, 0, 23, expression),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, expression),
+    months: parseField(month, 1, 12, expression),
+    daysOfWeek,
+    restrictedDayOfMonth: dayOfMonth !== '*',
+    restrictedDayOfWeek: dayOfWeek !== '*',
+  };
+}
+
+/**
+ * Checks the day fields. As in standard cron, when both day of month and
+ * day of week are restricted, a date matching either one is accepted.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Finds the first time strictly after `after` matching a cron expression,
+ * evaluated in the device's local time zone.
+ * @param expression - The cron expression.
+ * @param after - Time in milliseconds to search from.
+ * @returns The next matching time in milliseconds, or null if none is found.
+ */
+export function getNextCronTime(
+  expression: string,
+  after: number
+): number | null {
+  const schedule = parseCron(expression);
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  return null;
+}
@@ -1,5 +1,37 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Job, JobOptions } from '../types';
+import type {
+  BackoffStrategy,
+  Job,
+  JobAttempt,
+  JobAttemptError,
+  JobAttemptOutcome,
+  JobCounts,
+  JobOptions,
+  JobOrderBy,
+  JobQuery,
+  JobStatus,
+  JobStatusCounts,
+  PruneJobsOptions,
+  RetentionOptions,
+  RetentionPolicy,
+} from '../types';
+import { JobInterruptedError, JobStatusError } from '../errors';
+
+/** Queue of jobs added without a queue name, including jobs stored before named queues. */
+export const DEFAULT_QUEUE = 'default';
+
+/**
+ * Statuses each status may move to. Staying in the same status is always allowed.
+ */
+const STATUS_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+  waiting: ['delayed', 'active', 'paused', 'failed', 'cancelled'],
+  delayed: ['waiting', 'active', 'paused', 'failed', 'cancelled'],
+  active: ['waiting', 'delayed', 'completed', 'failed', 'cancelled'],
+  paused: ['waiting', 'delayed', 'cancelled'],
+  failed: ['waiting', 'delayed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
 
 /**
  * Checks if a job has exceeded its programmed Time-To-Live (TTL).
@@ -16,7 +48,288 @@ export function isJobExpired<T>(job: Job<T>): boolean {
 }
 
 /**
- * Calculates the delay for the next retry attempt using
+ * Checks whether a job's scheduled run time has been reached.
+ * @param job - The job to check.
+ * @param now - Current time in milliseconds. Defaults to Date.now().
+ * @returns True if the job has no `runAt` or it is in the past.
+ */
+export function isJobDue<T>(job: Job<T>, now: number = Date.now()): boolean {
+  if (!job.runAt) return true;
+  return new Date(job.runAt).getTime() <= now;
+}
+
+/**
+ * Checks whether any of a job's `dependsOn` parents is still in the queue.
+ * Shared by adapters that filter jobs in memory.
+ * @param job - The job to check.
+ * @param jobIds - Ids of all stored jobs that have not completed.
+ * @returns True if the job must wait for a parent to finish.
+ */
+export function hasPendingParents<T>(
+  job: Job<T>,
+  jobIds: Set<string>
+): boolean {
+  return !!job.dependsOn?.some((id) => jobIds.has(id));
+}
+
+/**
+ * Moves a job to a new status and keeps `active` in sync.
+ * @param job - The job to update.
+ * @param status - The new status.
+ * @throws JobStatusError if the current status cannot lead to the new one.
+ */
+export function transitionJob<T>(job: Job<T>, status: JobStatus): void {
+  const from = resolveJobStatus(job);
+  if (from !== status && !STATUS_TRANSITIONS[from].includes(status)) {
+    throw new JobStatusError(job.id, from, status);
+  }
+  job.status = status;
+  job.active = status === 'active';
+}
+
+/**
+ * Returns the status of a job that is not running: `delayed` while its
+ * `runAt` is in the future, otherwise `waiting`.
+ * @param job - The job to check.
+ * @param now - Current time in milliseconds. Defaults to Date.now().
+ */
+export function getIdleStatus<T>(
+  job: Job<T>,
+  now: number = Date.now()
+): JobStatus {
+  return isJobDue(job, now) ? 'waiting' : 'delayed';
+}
+
+/**
+ * Returns a job's status, deriving it for jobs stored before `status` existed.
+ * @param job - The job to check.
+ */
+export function resolveJobStatus<T>(job: Job<T>): JobStatus {
+  if (job.status) return job.status;
+  if (job.active) return 'active';
+  if (job.attempts >= job.maxAttempts) return 'failed';
+  return getIdleStatus(job);
+}
+
+/**
+ * Checks whether a job may be claimed: it is waiting or delayed, and due.
+ * Adapters must also skip jobs with pending parents (see `hasPendingParents`).
+ * @param job - The job to check.
+ * @param now - Current time in milliseconds. Defaults to Date.now().
+ */
+export function isJobReady<T>(job: Job<T>, now: number = Date.now()): boolean {
+  return isIdle(job) && isJobDue(job, now);
+}
+
+/**
+ * Checks whether a job is waiting for its turn: `waiting` or `delayed`.
+ */
+function isIdle<T>(job: Job<T>): boolean {
+  const status = resolveJobStatus(job);
+  return status === 'waiting' || status === 'delayed';
+}
+
+/**
+ * Clears a job's unique key once it stops blocking duplicates: when an attempt
+ * starts (unless scoped to 'active') or the job has finished. Claiming alone keeps
+ * the key, as a claimed job may be returned to the queue without running.
+ * A released key is never taken back, so a retried job cannot collide with a newer duplicate.
+ * @param job - The job being persisted.
+ */
+export function releaseUniqueKey<T>(job: Job<T>): void {
+  if (!job.uniqueKey) return;
+
+  const status = resolveJobStatus(job);
+  const startedWhileWaiting =
+    status === 'active' && job.uniqueScope !== 'active';
+  if (startedWhileWaiting || status === 'failed' || status === 'completed') {
+    job.uniqueKey = null;
+  }
+}
+
+/**
+ * Finds a stored job that the new job would duplicate: one with the same id,
+ * or one holding the same unique key.
+ * Shared by adapters that filter jobs in memory.
+ * @param job - The job being added.
+ * @param jobs - The stored jobs.
+ */
+export function findDuplicateJob<T>(
+  job: Job<T>,
+  jobs: Iterable<Job<unknown>>
+): Job<unknown> | undefined {
+  for (const stored of jobs) {
+    if (stored.id === job.id) return stored;
+    if (job.uniqueKey && stored.uniqueKey === job.uniqueKey) return stored;
+  }
+  return undefined;
+}
+
+/**
+ * Applies a replacing add (used by debounce) to the waiting job holding the
+ * same unique key: the stored job takes the new payload and run time.
+ * @param stored - The stored duplicate.
+ * @param job - The job being added.
+ * @returns True if the stored job was updated.
+ */
+export function replaceDuplicateJob<T>(
+  stored: Job<unknown>,
+  job: Job<T>
+): boolean {
+  if (!isIdle(stored) || !job.uniqueKey || stored.uniqueKey !== job.uniqueKey) {
+    return false;
+  }
+  stored.payload = job.payload;
+  stored.runAt = job.runAt;
+  transitionJob(stored, getIdleStatus(stored));
+  return true;
+}
+
+/**
+ * Checks whether a job belongs to a queue.
+ * @param job - The job to check.
+ * @param queue - The queue name. Every job matches when omitted.
+ */
+export function isInQueue<T>(job: Job<T>, queue?: string): boolean {
+  return queue === undefined || (job.queue ?? DEFAULT_QUEUE) === queue;
+}
+
+/**
+ * Finds the earliest `runAt` among idle jobs that are not due yet.
+ * Shared by adapters that filter jobs in memory.
+ * @param jobs - The jobs to inspect.
+ * @param now - Current time in milliseconds. Defaults to Date.now().
+ * @returns The earliest future run time as an ISO string, or null.
+ */
+export function findNextRunAt<T>(
+  jobs: Job<T>[],
+  now: number = Date.now()
+): string | null {
+  let next: string | null = null;
+  for (const job of jobs) {
+    const { runAt } = job;
+    if (!runAt || !isIdle(job)) continue;
+    if (isJobDue(job, now)) continue;
+    if (!next || new Date(runAt).getTime() < new Date(next).getTime()) {
+      next = runAt;
+    }
+  }
+  return next;
+}
+
+/**
+ * Normalizes a retention policy.
+ * @param policy - `removeOnComplete` or `removeOnFail`.
+ * @returns The limits on kept jobs, or null if finished jobs are removed right away.
+ */
+export function resolveRetention(
+  policy: RetentionPolicy
+): RetentionOptions | null {
+  if (policy === true) return null;
+  if (policy === false) return {};
+  if (typeof policy === 'number') return { count: policy };
+  return policy;
+}
+
+/**
+ * Finds the finished jobs beyond a retention limit.
+ * Shared by adapters that filter jobs in memory.
+ * @param jobs - Completed or failed jobs.
+ * @param options - The limits on kept jobs, and the queue they apply to.
+ * @param now - Current time in milliseconds. Defaults to Date.now().
+ * @returns The jobs to delete.
+ */
+export function findPrunableJobs<T>(
+  jobs: Job<T>[],
+  options: PruneJobsOptions,
+  now: number = Date.now()
+): Job<T>[] {
+  const { count, age, queue } = options;
+  const finishedAt = (job: Job<T>) =>
+    new Date(job.finishedAt ?? job.failed ?? job.created).getTime();
+
+  return jobs
+    .filter((job) => isInQueue(job, queue))
+    .sort((a, b) => finishedAt(b) - finishedAt(a))
+    .filter(
+      (job, i) =>
+        (count !== undefined && i >= count) ||
+        (age !== undefined && now - finishedAt(job) > age)
+    );
+}
+
+/**
+ * Orders two values the way SQLite does: nulls first, then ascending.
+ */
+function compareValues(
+  a: string | number | null | undefined,
+  b: string | number | null | undefined
+): number {
+  if (a == null || b == null) return (a == null ? 0 : 1) - (b == null ? 0 : 1);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Sorts jobs by a `JobQuery` order, or in claim order by default.
+ */
+function compareJobs<T>(a: Job<T>, b: Job<T>, orderBy?: JobOrderBy): number {
+  if (orderBy) {
+    const sign = orderBy.direction === 'desc' ? -1 : 1;
+    const order = compareValues(a[orderBy.field], b[orderBy.field]);
+    if (order !== 0) return sign * order;
+  } else if (a.priority !== b.priority) {
+    return b.priority - a.priority;
+  }
+  return compareValues(a.created, b.created);
+}
+
+/**
+ * Applies the filters, order and page of a query.
+ * Shared by adapters that filter jobs in memory.
+ * @param jobs - All stored jobs, dead jobs included.
+ * @param query - Filters, sort order and page.
+ * @returns The matching jobs.
+ */
+export function filterJobs<T>(jobs: Job<T>[], query: JobQuery): Job<T>[] {
+  const { names, states, tags, queue, orderBy, offset = 0, limit } = query;
+  return jobs
+    .filter(
+      (job) =>
+        isInQueue(job, queue) &&
+        (!names || names.includes(job.name)) &&
+        (!states || states.includes(job.status)) &&
+        (!tags || !!job.tags?.some((tag) => tags.includes(tag)))
+    )
+    .sort((a, b) => compareJobs(a, b, orderBy))
+    .slice(offset, limit === undefined ? undefined : offset + limit);
+}
+
+/**
+ * Counts jobs by state and name.
+ * @param entries - Jobs, or groups of jobs with their `count`.
+ * @returns Counts with every state present, at 0 if no job is in it.
+ */
+export function countJobs(
+  entries: Iterable<{ name: string; status: JobStatus; count?: number }>
+): JobCounts {
+  const emptyCounts = () =>
+    Object.fromEntries(
+      Object.keys(STATUS_TRANSITIONS).map((status) => [status, 0])
+    ) as JobStatusCounts;
+  const counts: JobCounts = { total: 0, states: emptyCounts(), names: {} };
+
+  for (const { name, status, count = 1 } of entries) {
+    const byName = counts.names[name] ?? emptyCounts();
+    counts.names[name] = byName;
+    byName[status] += count;
+    counts.states[status] += count;
+    counts.total += count;
+  }
+  return counts;
+}
+
+/**
+ * Calculates the default delay for the next retry attempt using
  * Exponential Backoff and randomized Jitter.
  *
  * Formula: (baseInterval * 2^attempts) + (Math.random() * baseInterval)
@@ -34,8 +347,63 @@ export function calculateRetryDelay<T>(job: Job<T>): number {
   return exponentialDelay + jitter;
 }
 
+/**
+ * Calculates the delay before the next attempt of a failed job from its
+ * `backoff` option. Called once per failure; the result is stored as the job's `runAt`.
+ *
+ * @param job - The failed job, with `attempts` already incremented.
+ * @param error - The error of the failed attempt.
+ * @param strategies - Named strategies registered on the job's worker.
+ * @returns Delay in milliseconds.
+ */
+export function calculateBackoffDelay<T>(
+  job: Job<T>,
+  error: Error,
+  strategies: Record<string, BackoffStrategy> = {}
+): number {
+  const { backoff } = job;
+  if (!backoff) return calculateRetryDelay(job);
+  if (typeof backoff === 'function') {
+    return Math.max(0, backoff(job.attempts, error, job as Job<unknown>));
+  }
+
+  const base = backoff.delay ?? job.timeInterval;
+  let delay: number;
+  switch (backoff.type) {
+    case 'fixed':
+      delay = base;
+      break;
+    case 'linear':
+      delay = base * job.attempts;
+      break;
+    case 'exponential':
+      delay = base * Math.pow(2, job.attempts);
+      break;
+    default: {
+      const strategy = strategies[backoff.type];
+      if (!strategy) {
+        console.warn(
+          `[react-native-task-queue] Unknown backoff strategy "${backoff.type}", using the default.`
+        );
+        return calculateRetryDelay(job);
+      }
+      delay = strategy(job.attempts, error, job as Job<unknown>);
+    }
+  }
+
+  if (backoff.jitter) {
+    delay += Math.random() * base;
+  }
+  if (backoff.maxDelay !== undefined) {
+    delay = Math.min(delay, backoff.maxDelay);
+  }
+  return Math.max(0, delay);
+}
+
 /**
  * Determines if a job is still within its retry backoff window.
+ * Failed jobs store their next attempt time in `runAt`, which adapters filter on;
+ * this only covers jobs failed before that time was stored.
  * @param job - The job to check.
  * @returns Object containing whether to skip and the remaining delay.
  */
@@ -48,9 +416,13 @@ export function shouldSkipByBackoff<T>(job: Job<T>): {
   }
 
   const lastFailed = new Date(job.failed).getTime();
-  const now = Date.now();
-  const elapsed = now - lastFailed;
-  const totalDelay = calculateRetryDelay(job);
+  if (job.runAt && new Date(job.runAt).getTime() >= lastFailed) {
+    return { shouldSkip: false, remaining: 0 };
+  }
+
+  // Without jitter, so the window does not change between checks
+  const elapsed = Date.now() - lastFailed;
+  const totalDelay = job.timeInterval * Math.pow(2, job.attempts);
 
   if (elapsed < totalDelay) {
     return { shouldSkip: true, remaining: totalDelay - elapsed };
@@ -81,6 +453,55 @@ export function prepareJobFailure<T>(job: Job<T>, error: Error): Job<T> {
   return updatedJob;
 }
 
+/**
+ * Copies an error into a serializable object: name, message, stack and
+ * custom enumerable fields such as an HTTP status.
+ * @param error - The error to copy.
+ */
+export function serializeError(error: Error): JobAttemptError {
+  const fields: Record<string, unknown> = { ...error };
+  return {
+    ...fields,
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+}
+
+/**
+ * Appends a finished attempt to a job's `attemptHistory`, keeping the most recent entries.
+ * @param job - The job. For a failed attempt, with `attempts` already incremented.
+ * @param error - The error of a failed or interrupted attempt, or null if it completed.
+ * @param startedAt - Time in milliseconds at which the attempt started.
+ * @param limit - Maximum number of entries to keep.
+ */
+export function recordAttempt<T>(
+  job: Job<T>,
+  error: Error | null,
+  startedAt: number,
+  limit: number
+): void {
+  const finishedAt = Date.now();
+  const outcome: JobAttemptOutcome = !error
+    ? 'completed'
+    : error instanceof JobInterruptedError
+    ? 'interrupted'
+    : 'failed';
+  const attempt: JobAttempt = {
+    // Only failed attempts are counted in `attempts`
+    attempt: outcome === 'failed' ? job.attempts : job.attempts + 1,
+    outcome,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    duration: finishedAt - startedAt,
+  };
+  if (error) {
+    attempt.error = serializeError(error);
+  }
+  const history = [...(job.attemptHistory ?? []), attempt];
+  job.attemptHistory = limit > 0 ? history.slice(-limit) : [];
+}
+
 /**
  * Factory function to create a new Job object with validated defaults.
  *
@@ -88,16 +509,20 @@ export function prepareJobFailure<T>(job: Job<T>, error: Error): Job<T> {
  * @param name - Job name.
  * @param payload - Data payload.
  * @param options - Custom configuration options.
+ * @param queue - Name of the queue the job belongs to.
  * @returns A fully initialized Job object.
  */
 export function createJob<T>(
   name: string,
   payload: T,
-  options: JobOptions = {}
+  options: JobOptions = {},
+  queue: string = DEFAULT_QUEUE
 ): Job<T> {
+  const runAt = resolveRunAt(options);
   return {
-    id: uuidv4(),
+    id: options.jobId ?? uuidv4(),
     name,
+    queue,
     payload,
     metaData: options.metaData || {},
     priority: options.priority || 0,
@@ -105,14 +530,44 @@ export function createJob<T>(
     maxAttempts:
       options.attempts || (options.retries ? options.retries + 1 : 1),
     timeInterval: options.timeInterval || 0,
+    backoff:
+      typeof options.backoff === 'string'
+        ? { type: options.backoff }
+        : options.backoff,
     ttl: options.ttl || 1000 * 60 * 60 * 24 * 7, // Default 7 days
     onlineOnly: options.onlineOnly,
+    status: runAt ? 'delayed' : 'waiting',
     active: false,
     timeout: options.timeout || 25000,
     created: new Date().toISOString(),
+    runAt,
+    dependsOn: options.dependsOn,
+    onParentFailure: options.onParentFailure,
+    uniqueKey: options.debounce?.key ?? options.uniqueKey,
+    uniqueScope: options.debounce ? 'waiting' : options.uniqueScope,
+    removeOnComplete: options.removeOnComplete,
+    removeOnFail: options.removeOnFail,
+    tags: options.tags,
   };
 }
 
+/**
+ * Resolves the scheduled run time from the `runAt`, `delay` and `debounce` job options.
+ * @param options - Job options.
+ * @returns An ISO date string, or null if the job can run immediately.
+ */
+function resolveRunAt(options: JobOptions): string | null {
+  if (options.runAt !== undefined) {
+    return new Date(options.runAt).toISOString();
+  }
+  // A debounced job waits out its window before running
+  const delay = options.debounce ? options.debounce.ms : options.delay;
+  if (delay && delay > 0) {
+    return new Date(Date.now() + delay).toISOString();
+  }
+  return null;
+}
+
 /**
  * Creates a new object by picking specified properties from a source object.
  *
@@ -1,18 +1,24 @@
-import type { Job, WorkerOptions } from './types';
+import type {
+  Job,
+  WorkerContext,
+  WorkerFunction,
+  WorkerOptions,
+} from './types';
 
 /**
  * Worker class responsible for executing jobs.
  * @template T - The type of the job payload.
+ * @template R - The type of the job result.
  */
-export class Worker<T = unknown> {
+export class Worker<T = unknown, R = unknown> {
   /** Name of the worker, essentially the job name it handles. */
   name: string;
   /** The function to execute for the job. */
-  workerFn: (id: string, payload: T) => Promise<void>;
+  workerFn: WorkerFunction<T, R>;
   /** Options for the worker. */
-  options: WorkerOptions<T>;
-  /** Whether the worker is currently executing a job. */
-  isBusy: boolean = false;
+  options: WorkerOptions<T, R>;
+  /** Number of jobs this worker is currently executing. */
+  activeJobs: number = 0;
 
   /**
    * Creates a new Worker instance.
@@ -22,32 +28,50 @@ export class Worker<T = unknown> {
    */
   constructor(
     name: string,
-    workerFn: (id: string, payload: T) => Promise<void>,
-    options: WorkerOptions<T> = {}
+    workerFn: WorkerFunction<T, R>,
+    options: WorkerOptions<T, R> = {}
   ) {
     this.name = name;
     this.workerFn = workerFn;
     this.options = options;
   }
 
+  /**
+   * Whether the worker is currently executing at least one job.
+   */
+  get isBusy(): boolean {
+    return this.activeJobs > 0;
+  }
+
   /**
    * Executes a job using the worker function.
    * Handles lifecycle callbacks (onStart, onSuccess, onFailure, onComplete).
    * @param job - The job to execute.
+   * @param context - Execution context (abort signal, progress reporting) forwarded to the worker function.
+   * @returns The value resolved by the worker function.
    */
-  async execute(job: Job<T>): Promise<void> {
-    this.isBusy = true;
+  async execute(
+    job: Job<T>,
+    context: WorkerContext = {
+      signal: new AbortController().signal,
+      reportProgress: async () => {},
+    }
+  ): Promise<R> {
+    this.activeJobs++;
 
     try {
       if (this.options.onStart) {
         this.options.onStart(job);
       }
 
-      await this.workerFn(job.id, job.payload);
+      const result = await this.workerFn(job.id, job.payload, context);
 
-      if (this.options.onSuccess) {
-        this.options.onSuccess(job, null);
+      // An attempt that timed out or was cancelled has already failed
+      if (this.options.onSuccess && !context.signal.aborted) {
+        this.options.onSuccess(job, result);
       }
+
+      return result;
     } catch (error) {
       if (this.options.onFailure) {
         this.options.onFailure(job, error as Error);
@@ -57,7 +81,7 @@ export class Worker<T = unknown> {
       if (this.options.onComplete) {
         this.options.onComplete(job);
       }
-      this.isBusy = false;
+      this.activeJobs--;
     }
   }
 }